@@ -14,16 +14,59 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import * as fs from "fs";
+import { IOlmDevice } from "matrix-js-sdk/lib/crypto/algorithms/megolm";
+import { DeviceInfo } from "matrix-js-sdk/lib/crypto/deviceinfo";
+import { RoomKeyRequestState } from "matrix-js-sdk/lib/crypto/OutgoingRoomKeyRequestManager";
+import { InboundGroupSessionData } from "matrix-js-sdk/lib/crypto/OlmDevice";
+import { IDeviceData, ISession, OutgoingRoomKeyRequest } from "matrix-js-sdk/lib/crypto/store/base";
+import { Logger } from "matrix-js-sdk/lib/logger";
+import * as os from "os";
+import * as path from "path";
+
+import AsyncCryptoStore, { CryptoStoreTrace, MigrationPosition, PruneReport } from "../src/AsyncCryptoStore";
+import AsyncStorageStore from "../src/AsyncStorageStore";
+import AsyncStore from "../src/AsyncStore";
+import FileSystemAsyncStore from "../src/FileSystemAsyncStore";
+import { OlmInboundGroupSessionLike, OlmLike } from "../src/MegolmDecryption";
+import MmkvAsyncStore from "../src/MmkvAsyncStore";
+import SQLiteAsyncStore from "../src/SQLiteAsyncStore";
+import { LockHolder } from "../src/StoreLock";
 import MockAsyncStore from "./MockAsyncStore";
+import MockBatchAsyncStore from "./MockBatchAsyncStore";
+import MockMMKV from "./MockMMKV";
+import MockSQLiteDatabase from "./MockSQLiteDatabase";
+
+let tmpDir: string;
+let tmpFiles = 0;
+
+beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "matrix-rn-sdk-"));
+});
 
-describe("AsyncCryptoStore", () => {
-    const mockAsyncStore = new MockAsyncStore();
-    let asyncCryptoStore = new AsyncCryptoStore(mockAsyncStore);
+afterAll(() => {
+    for (const file of fs.readdirSync(tmpDir)) {
+        fs.unlinkSync(path.join(tmpDir, file));
+    }
+    fs.rmdirSync(tmpDir);
+});
+
+// Every backend the SDK ships an adapter for runs the whole suite.
+const backends: [string, () => AsyncStore][] = [
+    ["MockAsyncStore", (): AsyncStore => new MockAsyncStore()],
+    ["AsyncStorageStore", (): AsyncStore => new AsyncStorageStore(new MockBatchAsyncStore())],
+    ["MmkvAsyncStore", (): AsyncStore => new MmkvAsyncStore(new MockMMKV())],
+    ["SQLiteAsyncStore", (): AsyncStore => new SQLiteAsyncStore(new MockSQLiteDatabase())],
+    ["FileSystemAsyncStore", (): AsyncStore => new FileSystemAsyncStore(path.join(tmpDir, `store-${tmpFiles++}.json`))],
+];
+
+describe.each(backends)("AsyncCryptoStore on %s", (_, createStorage) => {
+    let storage: AsyncStore;
+    let asyncCryptoStore: AsyncCryptoStore;
 
     beforeEach(async () => {
-        mockAsyncStore.clear();
-        asyncCryptoStore = new AsyncCryptoStore(mockAsyncStore);
+        storage = createStorage();
+        asyncCryptoStore = new AsyncCryptoStore(storage);
     });
 
     test("counts number of end to end sessions", async () => {
@@ -476,7 +519,7 @@ describe("AsyncCryptoStore", () => {
             await asyncCryptoStore.storeEndToEndSession("adevicekey", "sess1", { session: "some-session" }, txn);
         });
 
-        await mockAsyncStore.setItem("someOtherData", "preciousData");
+        await storage.setItem("someOtherData", "preciousData");
 
         await asyncCryptoStore.deleteAllData();
 
@@ -488,6 +531,1529 @@ describe("AsyncCryptoStore", () => {
 
         expect(cb.mock.calls[0][0]).toEqual(null);
 
-        expect(await mockAsyncStore.getItem("someOtherData")).toEqual("preciousData");
+        expect(await storage.getItem("someOtherData")).toEqual("preciousData");
+    });
+
+    test("read-write transactions only commit once all operations finish", async () => {
+        const txnPromise = asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+            asyncCryptoStore.storeAccount(txn, "thingamabob");
+            asyncCryptoStore.storeEndToEndSession("adevicekey", "sess1", { sessionId: "some-id" }, txn);
+        });
+
+        expect(await storage.getAllKeys()).toEqual([]);
+
+        await txnPromise;
+
+        expect(await storage.getItem("crypto.account")).toEqual(JSON.stringify("thingamabob"));
+        expect(await storage.getItem("crypto.sessions/adevicekey/sess1")).toEqual(
+            JSON.stringify({ sessionId: "some-id" }),
+        );
+    });
+
+    test("reads in a transaction see its uncommitted writes", async () => {
+        const accountCb = jest.fn();
+        const sessionsCb = jest.fn();
+
+        await asyncCryptoStore.doTxn("readwrite", [], async (txn) => {
+            asyncCryptoStore.storeAccount(txn, "thingamabob");
+            asyncCryptoStore.storeEndToEndSession("adevicekey", "sess1", { sessionId: "some-id" }, txn);
+            asyncCryptoStore.getAccount(txn, accountCb);
+            asyncCryptoStore.getEndToEndSessions("adevicekey", txn, sessionsCb);
+        });
+
+        expect(accountCb).toHaveBeenCalledWith("thingamabob");
+        expect(sessionsCb).toHaveBeenCalledWith({ sess1: { sessionId: "some-id" } });
+    });
+
+    test("a failing operation rolls back the whole transaction", async () => {
+        await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+            asyncCryptoStore.storeAccount(txn, "old-account");
+        });
+
+        await expect(
+            asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeAccount(txn, "new-account");
+                asyncCryptoStore.storeEndToEndSession("adevicekey", "sess1", { sessionId: "some-id" }, txn);
+                asyncCryptoStore.getAccount(txn, () => {
+                    throw new Error("Olm failure");
+                });
+            }),
+        ).rejects.toThrow("Olm failure");
+
+        expect(await storage.getItem("crypto.account")).toEqual(JSON.stringify("old-account"));
+        expect(await storage.getItem("crypto.sessions/adevicekey/sess1")).toBeNull();
+    });
+
+    test("deletes are buffered in the transaction", async () => {
+        await asyncCryptoStore.addParkedSharedHistory("!room:example.org", {
+            senderId: "@alice:example.org",
+            senderKey: "senderkey1",
+            sessionId: "sessid1",
+            sessionKey: "sessionkey1",
+            keysClaimed: {},
+            forwardingCurve25519KeyChain: [],
+        });
+
+        const parked = await asyncCryptoStore.doTxn("readwrite", [], async (txn) => {
+            const result = await asyncCryptoStore.takeParkedSharedHistory("!room:example.org", txn);
+            expect(await asyncCryptoStore.takeParkedSharedHistory("!room:example.org", txn)).toEqual([]);
+            expect(await storage.getItem("crypto.sharedhistory.parked/!room%3Aexample.org")).not.toBeNull();
+            return result;
+        });
+
+        expect(parked).toHaveLength(1);
+        expect(await storage.getItem("crypto.sharedhistory.parked/!room%3Aexample.org")).toBeNull();
+    });
+
+    test("read-only transactions reject writes", async () => {
+        await expect(
+            asyncCryptoStore.doTxn("readonly", [], (txn) => {
+                asyncCryptoStore.storeAccount(txn, "thingamabob");
+            }),
+        ).rejects.toThrow("Tried to write in a read-only transaction");
+
+        expect(await storage.getItem("crypto.account")).toBeNull();
+    });
+
+    test("transactions without operations complete", async () => {
+        expect(await asyncCryptoStore.doTxn("readonly", [], () => 42)).toEqual(42);
+    });
+
+    test("serializes overlapping read-write transactions", async () => {
+        await asyncCryptoStore.doTxn("readwrite", ["account"], (txn) => {
+            asyncCryptoStore.storeAccount(txn, "a");
+        });
+
+        const appendToAccount = (suffix: string): Promise<void> =>
+            asyncCryptoStore.doTxn("readwrite", ["account"], (txn) => {
+                asyncCryptoStore.getAccount(txn, (accountPickle) => {
+                    asyncCryptoStore.storeAccount(txn, accountPickle + suffix);
+                });
+            });
+
+        await Promise.all([appendToAccount("b"), appendToAccount("c")]);
+
+        const cb = jest.fn();
+        await asyncCryptoStore.doTxn("readonly", ["account"], (txn) => {
+            asyncCryptoStore.getAccount(txn, cb);
+        });
+        expect(cb).toHaveBeenCalledWith("abc");
+    });
+
+    test("lists keys from the backend only once", async () => {
+        const getAllKeys = jest.spyOn(storage, "getAllKeys");
+
+        await asyncCryptoStore.startup();
+        await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+            asyncCryptoStore.storeEndToEndSession("adevicekey", "sess1", { sessionId: "some-id" }, txn);
+            asyncCryptoStore.storeEndToEndRoom("!a:example.org", { algorithm: "some-algorithm" }, txn);
+        });
+        await asyncCryptoStore.deleteEndToEndSessionsBatch([{ deviceKey: "adevicekey", sessionId: "sess1" }]);
+
+        const countCb = jest.fn();
+        const roomsCb = jest.fn();
+        await asyncCryptoStore.doTxn("readonly", [], (txn) => {
+            asyncCryptoStore.countEndToEndSessions(txn, countCb);
+            asyncCryptoStore.getEndToEndRooms(txn, roomsCb);
+        });
+
+        expect(countCb).toHaveBeenCalledWith(0);
+        expect(roomsCb).toHaveBeenCalledWith({ "!a:example.org": { algorithm: "some-algorithm" } });
+        expect(getAllKeys).toHaveBeenCalledTimes(1);
+        getAllKeys.mockRestore();
+    });
+
+    test("loads existing keys at startup", async () => {
+        await storage.setItem("crypto.inboundgroupsessions/senderkey1/sessid1", JSON.stringify({}));
+
+        await asyncCryptoStore.startup();
+
+        expect(await asyncCryptoStore.countEndToEndInboundGroupSessions()).toEqual(1);
+    });
+
+    test("containsData reflects what is persisted", async () => {
+        expect(await asyncCryptoStore.containsData()).toBe(false);
+
+        await asyncCryptoStore.startup();
+
+        expect(await asyncCryptoStore.containsData()).toBe(true);
+        expect(await new AsyncCryptoStore(storage).containsData()).toBe(true);
+
+        await asyncCryptoStore.deleteAllData();
+
+        expect(await asyncCryptoStore.containsData()).toBe(false);
+        expect(await new AsyncCryptoStore(storage).containsData()).toBe(false);
+    });
+
+    test("containsData detects data written before the marker existed", async () => {
+        await storage.setItem("crypto.account", JSON.stringify("thingamabob"));
+
+        expect(await asyncCryptoStore.containsData()).toBe(true);
+    });
+
+    describe("schema migrations", () => {
+        test("records the latest schema version for a new store", async () => {
+            await asyncCryptoStore.startup();
+
+            expect(await storage.getItem("crypto.schema_version")).toEqual("3");
+        });
+
+        test("moves rooms to URI-encoded keys", async () => {
+            await storage.setItem("crypto.account", JSON.stringify("thingamabob"));
+            await storage.setItem("crypto.rooms/!room:example.org", JSON.stringify({ algorithm: "alg" }));
+
+            await asyncCryptoStore.startup();
+
+            expect(await storage.getItem("crypto.rooms/!room:example.org")).toBeNull();
+            expect(await storage.getItem("crypto.rooms/!room%3Aexample.org")).toEqual(
+                JSON.stringify({ algorithm: "alg" }),
+            );
+            expect(await storage.getItem("crypto.schema_version")).toEqual("3");
+
+            const cb = jest.fn();
+            await asyncCryptoStore.doTxn("readonly", [], (txn) => {
+                asyncCryptoStore.getEndToEndRooms(txn, cb);
+            });
+            expect(cb).toHaveBeenCalledWith({ "!room:example.org": { algorithm: "alg" } });
+        });
+
+        test("resumes a migration that was interrupted", async () => {
+            // The app was killed after copying the room to its new key, but before removing the old one.
+            await storage.setItem("crypto.schema_version", "1");
+            await storage.setItem("crypto.rooms/!room:example.org", JSON.stringify({ algorithm: "alg" }));
+            await storage.setItem("crypto.rooms/!room%3Aexample.org", JSON.stringify({ algorithm: "alg" }));
+
+            await asyncCryptoStore.startup();
+
+            expect((await storage.getAllKeys()).filter((k) => k.startsWith("crypto.rooms/"))).toEqual([
+                "crypto.rooms/!room%3Aexample.org",
+            ]);
+        });
+
+        test("refuses to open a store from a newer version", async () => {
+            await storage.setItem("crypto.schema_version", "1000");
+
+            await expect(asyncCryptoStore.startup()).rejects.toThrow("schema version 1000");
+        });
+    });
+
+    describe("outgoing room key requests", () => {
+        const UNSENT = 0;
+        const SENT = 1;
+
+        function makeRequest(requestId: string, sessionId: string, deviceId: string): OutgoingRoomKeyRequest {
+            return {
+                requestId,
+                recipients: [{ userId: "@alice:example.org", deviceId }],
+                requestBody: {
+                    algorithm: "m.megolm.v1.aes-sha2",
+                    room_id: "!room:example.org",
+                    sender_key: "senderkey1",
+                    session_id: sessionId,
+                },
+                state: UNSENT,
+            };
+        }
+
+        test("getOrAddOutgoingRoomKeyRequest only adds the first request for a session", async () => {
+            const first = makeRequest("req1", "sessid1", "DEVICE1");
+            expect(await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(first)).toEqual(first);
+            expect(
+                await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(makeRequest("req2", "sessid1", "DEVICE2")),
+            ).toEqual(first);
+
+            expect(await asyncCryptoStore.getOutgoingRoomKeyRequest(first.requestBody)).toEqual(first);
+            expect(
+                await asyncCryptoStore.getOutgoingRoomKeyRequest({ ...first.requestBody, session_id: "sessid2" }),
+            ).toBeNull();
+        });
+
+        test("finds requests by state and by target", async () => {
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(makeRequest("req1", "sessid1", "DEVICE1"));
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(makeRequest("req2", "sessid2", "DEVICE2"));
+            await asyncCryptoStore.updateOutgoingRoomKeyRequest("req2", UNSENT, { state: SENT });
+
+            expect((await asyncCryptoStore.getOutgoingRoomKeyRequestByState([SENT]))?.requestId).toEqual("req2");
+            expect(
+                (await asyncCryptoStore.getAllOutgoingRoomKeyRequestsByState(UNSENT)).map((r) => r.requestId),
+            ).toEqual(["req1"]);
+            expect(
+                (
+                    await asyncCryptoStore.getOutgoingRoomKeyRequestsByTarget("@alice:example.org", "DEVICE2", [
+                        UNSENT,
+                        SENT,
+                    ])
+                ).map((r) => r.requestId),
+            ).toEqual(["req2"]);
+            expect(
+                await asyncCryptoStore.getOutgoingRoomKeyRequestsByTarget("@alice:example.org", "DEVICE2", [UNSENT]),
+            ).toEqual([]);
+        });
+
+        test("only updates and deletes requests in the expected state", async () => {
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(makeRequest("req1", "sessid1", "DEVICE1"));
+
+            expect(await asyncCryptoStore.updateOutgoingRoomKeyRequest("req1", SENT, { state: UNSENT })).toBeNull();
+            expect(await asyncCryptoStore.deleteOutgoingRoomKeyRequest("req1", SENT)).toBeNull();
+            expect((await asyncCryptoStore.deleteOutgoingRoomKeyRequest("req1", UNSENT))?.requestId).toEqual("req1");
+
+            expect(await asyncCryptoStore.getOutgoingRoomKeyRequestByState([UNSENT, SENT])).toBeNull();
+            expect((await storage.getAllKeys()).filter((k) => k.startsWith("crypto.outgoingkeyrequest"))).toEqual([]);
+        });
+
+        test("indexes requests stored before the indexes existed at startup", async () => {
+            const request = makeRequest("req1", "sessid1", "DEVICE1");
+            await storage.setItem("crypto.outgoingkeyrequest/req1", JSON.stringify(request));
+
+            await asyncCryptoStore.startup();
+
+            expect(await asyncCryptoStore.getOutgoingRoomKeyRequest(request.requestBody)).toEqual(request);
+            expect(await asyncCryptoStore.getAllOutgoingRoomKeyRequestsByState(UNSENT)).toEqual([request]);
+        });
+    });
+
+    describe("with a backend that supports batch operations", () => {
+        const batchStore = new MockBatchAsyncStore();
+        let store = new AsyncCryptoStore(batchStore);
+
+        beforeEach(() => {
+            batchStore.clear();
+            jest.restoreAllMocks();
+            store = new AsyncCryptoStore(batchStore);
+        });
+
+        test("commits transactions with multiSet", async () => {
+            const multiSet = jest.spyOn(batchStore, "multiSet");
+            const setItem = jest.spyOn(batchStore, "setItem");
+
+            await store.doTxn("readwrite", [], (txn) => {
+                store.storeEndToEndRoom("!a:example.org", { algorithm: "some-algorithm" }, txn);
+                store.storeEndToEndRoom("!b:example.org", { algorithm: "another-algorithm" }, txn);
+            });
+
+            expect(multiSet).toHaveBeenCalledTimes(1);
+            // One for the journal, and two from MockBatchAsyncStore.multiSet itself.
+            expect(setItem).toHaveBeenCalledTimes(3);
+        });
+
+        test("reads many keys with multiGet", async () => {
+            await store.doTxn("readwrite", [], (txn) => {
+                store.storeEndToEndRoom("!a:example.org", { algorithm: "some-algorithm" }, txn);
+                store.storeEndToEndRoom("!b:example.org", { algorithm: "another-algorithm" }, txn);
+            });
+
+            const multiGet = jest.spyOn(batchStore, "multiGet");
+            const cb = jest.fn();
+            await store.doTxn("readonly", [], (txn) => {
+                store.getEndToEndRooms(txn, cb);
+            });
+
+            expect(multiGet).toHaveBeenCalledTimes(1);
+            expect(cb).toHaveBeenCalledWith({
+                "!a:example.org": { algorithm: "some-algorithm" },
+                "!b:example.org": { algorithm: "another-algorithm" },
+            });
+        });
+
+        test("deleteAllData removes keys with multiRemove", async () => {
+            await store.doTxn("readwrite", [], (txn) => {
+                store.storeAccount(txn, "thingamabob");
+                store.storeEndToEndSession("adevicekey", "sess1", { sessionId: "some-id" }, txn);
+            });
+            await batchStore.setItem("someOtherData", "preciousData");
+
+            const multiRemove = jest.spyOn(batchStore, "multiRemove");
+            await store.deleteAllData();
+
+            expect(multiRemove).toHaveBeenCalledTimes(1);
+            expect(await batchStore.getAllKeys()).toEqual(["someOtherData"]);
+        });
+    });
+
+    describe("secure store", () => {
+        let secureStorage: MockAsyncStore;
+
+        beforeEach(() => {
+            secureStorage = new MockAsyncStore();
+            asyncCryptoStore = new AsyncCryptoStore(storage, { secureStore: secureStorage });
+        });
+
+        const storeSecrets = async (store: AsyncCryptoStore): Promise<void> => {
+            await store.doTxn("readwrite", [], (txn) => {
+                store.storeAccount(txn, "pickled-account");
+                store.storeCrossSigningKeys(txn, { master: { keys: {}, usage: ["master"], user_id: "@a:b" } });
+                store.storeSecretStorePrivateKey(txn, "m.megolm_backup.v1", { iv: "iv", ciphertext: "ct", mac: "mac" });
+                store.storeEndToEndSession("adevicekey", "sess1", { session: "some-session" }, txn);
+            });
+        };
+
+        const getAccount = async (store: AsyncCryptoStore): Promise<string | null> => {
+            let account: string | null = null;
+            await store.doTxn("readonly", [], (txn) => store.getAccount(txn, (a) => (account = a)));
+            return account;
+        };
+
+        test("keeps secrets in the secure store and everything else in the main store", async () => {
+            await asyncCryptoStore.startup();
+            await storeSecrets(asyncCryptoStore);
+
+            expect((await secureStorage.getAllKeys()).sort()).toEqual([
+                "crypto.account",
+                "crypto.cross_signing_keys",
+                "crypto.ssss_cache.m.megolm_backup.v1",
+            ]);
+            expect(await storage.getAllKeys()).toContain("crypto.sessions/adevicekey/sess1");
+            expect(await storage.getItem("crypto.account")).toBeNull();
+            expect(await getAccount(new AsyncCryptoStore(storage, { secureStore: secureStorage }))).toEqual(
+                "pickled-account",
+            );
+        });
+
+        test("moves existing secrets into the secure store on startup", async () => {
+            const plain = new AsyncCryptoStore(storage);
+            await plain.startup();
+            await storeSecrets(plain);
+
+            await asyncCryptoStore.startup();
+
+            expect(await secureStorage.getItem("crypto.account")).toEqual(JSON.stringify("pickled-account"));
+            expect(await secureStorage.getItem("crypto.ssss_cache.m.megolm_backup.v1")).toEqual(
+                JSON.stringify({ iv: "iv", ciphertext: "ct", mac: "mac" }),
+            );
+            expect((await storage.getAllKeys()).filter((k) => k.includes("account") || k.includes("ssss"))).toEqual([]);
+            expect(await getAccount(asyncCryptoStore)).toEqual("pickled-account");
+        });
+
+        test("keeps the chunks of large secrets in the secure store", async () => {
+            asyncCryptoStore = new AsyncCryptoStore(storage, { secureStore: secureStorage, maxValueLength: 16 });
+            await asyncCryptoStore.startup();
+            await storeSecrets(asyncCryptoStore);
+
+            expect((await storage.getAllKeys()).filter((k) => k.startsWith("crypto.chunks/crypto.account"))).toEqual(
+                [],
+            );
+            expect(await secureStorage.getAllKeys()).toContainEqual(
+                expect.stringMatching(/^crypto\.chunks\/crypto\.account\//),
+            );
+            expect(await getAccount(asyncCryptoStore)).toEqual("pickled-account");
+        });
+
+        test("deleteAllData deletes from both stores", async () => {
+            await asyncCryptoStore.startup();
+            await storeSecrets(asyncCryptoStore);
+
+            await asyncCryptoStore.deleteAllData();
+
+            expect(await secureStorage.getAllKeys()).toEqual([]);
+            expect(await storage.getAllKeys()).toEqual([]);
+        });
+    });
+
+    describe("namespaces", () => {
+        const getAccount = async (store: AsyncCryptoStore): Promise<string | null> => {
+            let account: string | null = null;
+            await store.doTxn("readonly", [], (txn) => store.getAccount(txn, (a) => (account = a)));
+            return account;
+        };
+
+        test("keeps the data of each namespace apart", async () => {
+            const alice = new AsyncCryptoStore(storage, { namespace: "@alice:example.org/ALICE" });
+            const bob = new AsyncCryptoStore(storage, { namespace: "@bob:example.org/BOB" });
+            await alice.startup();
+            await bob.startup();
+            await alice.doTxn("readwrite", [], (txn) => alice.storeAccount(txn, "alice's account"));
+            await bob.doTxn("readwrite", [], (txn) => {
+                bob.storeAccount(txn, "bob's account");
+                bob.storeEndToEndSession("adevicekey", "sess1", { sessionId: "some-id" }, txn);
+            });
+
+            expect(await getAccount(alice)).toEqual("alice's account");
+            expect(await getAccount(bob)).toEqual("bob's account");
+
+            await alice.deleteAllData();
+
+            expect(await getAccount(bob)).toEqual("bob's account");
+            const cb = jest.fn();
+            await bob.doTxn("readonly", [], (txn) => bob.getEndToEndSessions("adevicekey", txn, cb));
+            expect(cb).toHaveBeenCalledWith({ sess1: { sessionId: "some-id" } });
+        });
+
+        test("lists and deletes namespaces", async () => {
+            const alice = new AsyncCryptoStore(storage, { namespace: "@alice:example.org/ALICE" });
+            const bob = new AsyncCryptoStore(storage, { namespace: "@bob:example.org/BOB" });
+            await alice.startup();
+            await bob.startup();
+            await asyncCryptoStore.startup();
+
+            expect((await AsyncCryptoStore.listNamespaces(storage)).sort()).toEqual([
+                "@alice:example.org/ALICE",
+                "@bob:example.org/BOB",
+            ]);
+
+            await AsyncCryptoStore.deleteNamespace(storage, "@alice:example.org/ALICE");
+
+            expect(await AsyncCryptoStore.listNamespaces(storage)).toEqual(["@bob:example.org/BOB"]);
+            expect(await asyncCryptoStore.containsData()).toBe(true);
+        });
+
+        test("doesn't list keys of other apps that look like namespaces", async () => {
+            const alice = new AsyncCryptoStore(storage, { namespace: "alice" });
+            await alice.startup();
+            await storage.setItem("crypto/unseparated", "value");
+            await storage.setItem("crypto/%E0%A4%A/key", "value");
+
+            expect(await AsyncCryptoStore.listNamespaces(storage)).toEqual(["alice"]);
+        });
+
+        test("the unnamespaced store ignores namespaced data", async () => {
+            const alice = new AsyncCryptoStore(storage, { namespace: "alice" });
+            await alice.startup();
+
+            expect(await asyncCryptoStore.containsData()).toBe(false);
+            await asyncCryptoStore.deleteAllData();
+            expect(await alice.containsData()).toBe(true);
+        });
+
+        test("the first namespace to start up adopts unnamespaced data", async () => {
+            await asyncCryptoStore.startup();
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => asyncCryptoStore.storeAccount(txn, "thingamabob"));
+            const alice = new AsyncCryptoStore(storage, { namespace: "alice" });
+            const bob = new AsyncCryptoStore(storage, { namespace: "bob" });
+
+            expect(await alice.containsData()).toBe(true);
+            await alice.startup();
+            await bob.startup();
+
+            expect(await getAccount(alice)).toEqual("thingamabob");
+            expect(await getAccount(bob)).toBeNull();
+            expect((await storage.getAllKeys()).filter((k) => k.startsWith("crypto."))).toEqual([]);
+        });
+
+        test("resumes adopting unnamespaced data that was interrupted", async () => {
+            // The app was killed after copying the account into the namespace, but before removing the original.
+            await storage.setItem("crypto/alice/account", JSON.stringify("thingamabob"));
+            await storage.setItem("crypto.account", JSON.stringify("thingamabob"));
+            await storage.setItem("crypto.device_data", JSON.stringify({ devices: {} }));
+            const alice = new AsyncCryptoStore(storage, { namespace: "alice" });
+
+            await alice.startup();
+
+            expect(await getAccount(alice)).toEqual("thingamabob");
+            expect(await storage.getItem("crypto/alice/device_data")).toEqual(JSON.stringify({ devices: {} }));
+            expect((await storage.getAllKeys()).filter((k) => k.startsWith("crypto."))).toEqual([]);
+        });
+    });
+
+    describe("chunked values", () => {
+        const deviceData = { devices: { "@alice:example.org": { DEVICE: { keys: {}, algorithms: [] } } } };
+
+        beforeEach(() => {
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+        });
+
+        const storeDeviceData = async (data: unknown): Promise<void> => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndDeviceData(data as IDeviceData, txn);
+            });
+        };
+
+        const getDeviceData = async (): Promise<unknown> => {
+            let result: unknown;
+            await asyncCryptoStore.doTxn("readonly", [], (txn) => {
+                asyncCryptoStore.getEndToEndDeviceData(txn, (data) => (result = data));
+            });
+            return result;
+        };
+
+        const chunkKeys = async (): Promise<string[]> =>
+            (await storage.getAllKeys()).filter((k) => k.startsWith("crypto.chunks/"));
+
+        test("splits long values across keys and puts them back together", async () => {
+            await storeDeviceData(deviceData);
+
+            expect((await storage.getItem("crypto.device_data"))?.startsWith("\u0000chunked:")).toBe(true);
+            const keys = await chunkKeys();
+            expect(keys.length).toEqual(Math.ceil(JSON.stringify(deviceData).length / 16));
+            expect(keys.every((k) => k.startsWith("crypto.chunks/crypto.device_data/0/"))).toBe(true);
+
+            expect(await getDeviceData()).toEqual(deviceData);
+            // A fresh store reads it back from the backend alone.
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+            expect(await getDeviceData()).toEqual(deviceData);
+        });
+
+        test("reassembles values read in batches", async () => {
+            const roomInfo = { algorithm: "m.megolm.v1.aes-sha2", rotation_period_ms: 604800000 };
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndRoom("!room1:example.org", roomInfo, txn);
+                asyncCryptoStore.storeEndToEndRoom("!room2:example.org", roomInfo, txn);
+            });
+
+            const cb = jest.fn();
+            await asyncCryptoStore.doTxn("readonly", [], (txn) => asyncCryptoStore.getEndToEndRooms(txn, cb));
+
+            expect(cb).toHaveBeenCalledWith({ "!room1:example.org": roomInfo, "!room2:example.org": roomInfo });
+        });
+
+        test("removes the old chunks when a value is replaced", async () => {
+            await storeDeviceData(deviceData);
+            const firstChunks = await chunkKeys();
+
+            const newDeviceData = { ...deviceData, syncToken: "token" };
+            await storeDeviceData(newDeviceData);
+
+            const secondChunks = await chunkKeys();
+            expect(secondChunks.some((k) => firstChunks.includes(k))).toBe(false);
+            expect(secondChunks.every((k) => k.startsWith("crypto.chunks/crypto.device_data/1/"))).toBe(true);
+            expect(await getDeviceData()).toEqual(newDeviceData);
+
+            await storeDeviceData({});
+            expect(await chunkKeys()).toEqual([]);
+            expect(await getDeviceData()).toEqual({});
+        });
+
+        test("keeps the previous value if a write is interrupted", async () => {
+            await storeDeviceData(deviceData);
+            // The app is killed after writing the new chunks, but before writing the header that points to them.
+            const realSetItem = storage.setItem.bind(storage);
+            jest.spyOn(storage, "setItem").mockImplementation(async (key, value) => {
+                if (key === "crypto.device_data") {
+                    throw new Error("app killed");
+                }
+                await realSetItem(key, value);
+            });
+
+            await expect(storeDeviceData({ ...deviceData, syncToken: "token" })).rejects.toThrow("app killed");
+            jest.restoreAllMocks();
+
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+            expect(await getDeviceData()).toEqual(deviceData);
+        });
+
+        test("detects missing chunks", async () => {
+            await storeDeviceData(deviceData);
+            await storage.removeItem((await chunkKeys())[1]);
+
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+            await expect(getDeviceData()).rejects.toThrow("The value of crypto.device_data is incomplete");
+        });
+
+        test("deleteAllData removes the chunks", async () => {
+            await storeDeviceData(deviceData);
+
+            await asyncCryptoStore.deleteAllData();
+
+            expect(await storage.getAllKeys()).toEqual([]);
+        });
+
+        test("archives hold whole values", async () => {
+            await storeDeviceData(deviceData);
+            const archive = await asyncCryptoStore.exportArchive("passphrase", { iterations: 1000 });
+
+            const otherStorage = createStorage();
+            const other = new AsyncCryptoStore(otherStorage);
+            await other.importArchive(archive, "passphrase");
+
+            expect(await otherStorage.getItem("crypto.device_data")).toEqual(JSON.stringify(deviceData));
+            expect(await otherStorage.getAllKeys()).not.toContainEqual(expect.stringMatching(/^crypto\.chunks\//));
+        });
+    });
+
+    describe("key backup bookkeeping", () => {
+        const sessionData = (n: number): InboundGroupSessionData => ({
+            room_id: "!room:example.org",
+            session: `session-${n}`,
+            forwardingCurve25519KeyChain: [],
+        });
+
+        beforeEach(async () => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                for (let n = 0; n < 5; n++) {
+                    asyncCryptoStore.storeEndToEndInboundGroupSession("sender", `s${n}`, sessionData(n), txn);
+                }
+            });
+        });
+
+        const sessionIds = (sessions: ISession[]): string[] => sessions.map((s) => s.sessionId);
+
+        test("returns sessions in the order they were marked", async () => {
+            await asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "s3" }]);
+            await asyncCryptoStore.markSessionsNeedingBackup([
+                { senderKey: "sender", sessionId: "s1" },
+                { senderKey: "sender", sessionId: "s4" },
+            ]);
+            // Marking a session again keeps its place.
+            await asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "s3" }]);
+
+            expect(sessionIds(await asyncCryptoStore.getSessionsNeedingBackup(0))).toEqual(["s3", "s1", "s4"]);
+            expect(sessionIds(await asyncCryptoStore.getSessionsNeedingBackup(2))).toEqual(["s3", "s1"]);
+            expect(await asyncCryptoStore.countSessionsNeedingBackup()).toEqual(3);
+
+            // The order survives a restart.
+            asyncCryptoStore = new AsyncCryptoStore(storage);
+            await asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "s0" }]);
+            expect(sessionIds(await asyncCryptoStore.getSessionsNeedingBackup(0))).toEqual(["s3", "s1", "s4", "s0"]);
+        });
+
+        test("doesn't lose concurrent updates", async () => {
+            await Promise.all(
+                [0, 1, 2, 3, 4].map((n) =>
+                    asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: `s${n}` }]),
+                ),
+            );
+            expect(await asyncCryptoStore.countSessionsNeedingBackup()).toEqual(5);
+
+            await Promise.all(
+                [0, 2, 4].map((n) =>
+                    asyncCryptoStore.unmarkSessionsNeedingBackup([{ senderKey: "sender", sessionId: `s${n}` }]),
+                ),
+            );
+            expect(sessionIds(await asyncCryptoStore.getSessionsNeedingBackup(0)).sort()).toEqual(["s1", "s3"]);
+
+            await Promise.all([
+                asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "s0" }]),
+                asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "s0" }]),
+            ]);
+            expect(sessionIds(await asyncCryptoStore.getSessionsNeedingBackup(0)).sort()).toEqual(["s0", "s1", "s3"]);
+        });
+
+        test("marks sessions within a transaction", async () => {
+            let count = 0;
+            await asyncCryptoStore.doTxn("readwrite", [], async (txn) => {
+                await asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "s1" }], txn);
+                count = await asyncCryptoStore.countSessionsNeedingBackup(txn);
+            });
+
+            expect(count).toEqual(1);
+            expect(sessionIds(await asyncCryptoStore.getSessionsNeedingBackup(0))).toEqual(["s1"]);
+        });
+
+        test("reports the backup state of migration batches", async () => {
+            await asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "s2" }]);
+
+            const batch = (await asyncCryptoStore.getEndToEndInboundGroupSessionsBatch())!;
+
+            expect(batch.filter((s) => s.needsBackup).map((s) => s.sessionId)).toEqual(["s2"]);
+
+            await asyncCryptoStore.deleteEndToEndInboundGroupSessionsBatch(batch);
+            expect(await asyncCryptoStore.countSessionsNeedingBackup()).toEqual(0);
+        });
+
+        test("migrates the map of sessions needing backup", async () => {
+            await storage.setItem("crypto.schema_version", "2");
+            await storage.setItem(
+                "crypto.sessionsneedingbackup",
+                JSON.stringify({ "sender/s4": true, "sender/s0": true }),
+            );
+
+            await asyncCryptoStore.startup();
+
+            expect(await storage.getItem("crypto.sessionsneedingbackup")).toBeNull();
+            expect(sessionIds(await asyncCryptoStore.getSessionsNeedingBackup(0))).toEqual(["s4", "s0"]);
+        });
+    });
+
+    describe("write-ahead journal", () => {
+        test("journals commits of several keys, and clears the journal", async () => {
+            const setItem = jest.spyOn(storage, "setItem");
+
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeAccount(txn, "pickled-account");
+                asyncCryptoStore.storeEndToEndSession("adevicekey", "sess1", { sessionId: "sess1" }, txn);
+            });
+
+            const [journalKey, journal] = setItem.mock.calls[0];
+            expect(journalKey).toMatch(/^crypto\.journal\//);
+            expect(JSON.parse(journal)).toEqual([
+                ["crypto.account", JSON.stringify("pickled-account")],
+                ["crypto.sessions/adevicekey/sess1", JSON.stringify({ sessionId: "sess1" })],
+            ]);
+            expect((await storage.getAllKeys()).filter((k) => k.includes("journal"))).toEqual([]);
+        });
+
+        test("finishes an interrupted commit on startup", async () => {
+            await storage.setItem("crypto.sessions/adevicekey/sess1", JSON.stringify({ sessionId: "sess1" }));
+            await storage.setItem("crypto.account", JSON.stringify("old-account"));
+            // The app was killed after the journal was written and the account had been updated.
+            await storage.setItem(
+                "crypto.journal/0000000000000001",
+                JSON.stringify([
+                    ["crypto.account", JSON.stringify("new-account")],
+                    ["crypto.rooms/!room%3Aexample.org", JSON.stringify({ algorithm: "m.megolm.v1.aes-sha2" })],
+                    ["crypto.sessions/adevicekey/sess1", null],
+                ]),
+            );
+
+            await asyncCryptoStore.startup();
+
+            expect(await storage.getItem("crypto.account")).toEqual(JSON.stringify("new-account"));
+            expect(await storage.getItem("crypto.rooms/!room%3Aexample.org")).not.toBeNull();
+            expect(await storage.getItem("crypto.sessions/adevicekey/sess1")).toBeNull();
+            expect(await storage.getItem("crypto.journal/0000000000000001")).toBeNull();
+        });
+
+        test("discards a journal that was interrupted while it was being written", async () => {
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+            await storage.setItem("crypto.account", JSON.stringify("old-account"));
+            // Only the chunks of the journal had been written.
+            const chunkPrefix = "crypto.chunks/" + encodeURIComponent("crypto.journal/0000000000000001");
+            await storage.setItem(`${chunkPrefix}/0/0`, '[["crypto.account"');
+
+            await asyncCryptoStore.startup();
+
+            expect(await storage.getItem("crypto.account")).toEqual(JSON.stringify("old-account"));
+            expect(await storage.getItem(`${chunkPrefix}/0/0`)).toBeNull();
+        });
+
+        test("keeps the journal of commits that include secrets in the secure store", async () => {
+            const secureStorage = new MockAsyncStore();
+            asyncCryptoStore = new AsyncCryptoStore(storage, { secureStore: secureStorage });
+            const setItem = jest.spyOn(secureStorage, "setItem");
+            const multiSet = storage.multiSet && jest.spyOn(storage, "multiSet");
+            const mainSetItem = jest.spyOn(storage, "setItem");
+
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeAccount(txn, "pickled-account");
+                asyncCryptoStore.storeEndToEndSession("adevicekey", "sess1", { sessionId: "sess1" }, txn);
+            });
+
+            expect(setItem.mock.calls[0][0]).toMatch(/^crypto\.journal\.secret\//);
+            const mainWrites: [string, string][] = [...mainSetItem.mock.calls];
+            for (const [pairs] of multiSet?.mock.calls ?? []) {
+                mainWrites.push(...pairs);
+            }
+            expect(mainWrites.some(([, value]) => value.includes("pickled-account"))).toBe(false);
+        });
+    });
+
+    describe("pruning", () => {
+        const sessionData: InboundGroupSessionData = {
+            room_id: "!room:example.org",
+            session: "pickled-megolm-session",
+            forwardingCurve25519KeyChain: [],
+        };
+
+        const keyRequest = (
+            requestId: string,
+            sessionId: string,
+            state = RoomKeyRequestState.Sent,
+        ): OutgoingRoomKeyRequest => ({
+            requestId,
+            recipients: [{ userId: "@alice:example.org", deviceId: "DEVICE" }],
+            requestBody: {
+                algorithm: "m.megolm.v1.aes-sha2",
+                room_id: "!room:example.org",
+                sender_key: "sender",
+                session_id: sessionId,
+            },
+            state,
+        });
+
+        // Stands in for Olm: sessions are known from the first message on, unless their pickle says otherwise.
+        class FakeInboundGroupSession implements OlmInboundGroupSessionLike {
+            private pickle = "";
+
+            public unpickle(key: string, pickle: string): void {
+                this.pickle = pickle;
+            }
+
+            public decrypt(): never {
+                throw new Error("Not implemented");
+            }
+
+            // eslint-disable-next-line @typescript-eslint/naming-convention -- Olm's name
+            public first_known_index(): number {
+                return this.pickle === "forwarded-megolm-session" ? 5 : 0;
+            }
+
+            public free(): void {}
+        }
+        const olm: OlmLike = { InboundGroupSession: FakeInboundGroupSession };
+
+        test("removes key requests and withheld notices for sessions in the store", async () => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "known", sessionData, txn);
+                for (const sessionId of ["known", "unknown"]) {
+                    asyncCryptoStore.storeEndToEndInboundGroupSessionWithheld(
+                        "sender",
+                        sessionId,
+                        { room_id: "!room:example.org", code: "m.unverified", reason: "not verified" },
+                        txn,
+                    );
+                }
+            });
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(keyRequest("req1", "known"));
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(keyRequest("req2", "unknown"));
+
+            const report = await asyncCryptoStore.pruneStaleRecords({ olm });
+
+            expect(report.keyRequests).toEqual(["req1"]);
+            expect(report.withheld).toEqual([{ senderKey: "sender", sessionId: "known" }]);
+            expect(await asyncCryptoStore.getAllOutgoingRoomKeyRequestsByState(1)).toEqual([
+                keyRequest("req2", "unknown"),
+            ]);
+            expect(await storage.getItem("crypto.inboundgroupsessions.withheld/sender/known")).toBeNull();
+            expect(await storage.getItem("crypto.inboundgroupsessions.withheld/sender/unknown")).not.toBeNull();
+            expect(await storage.getItem("crypto.inboundgroupsessions/sender/known")).not.toBeNull();
+        });
+
+        test("removes old session problems but keeps the latest of each device", async () => {
+            const now = jest.spyOn(Date, "now");
+            const day = 24 * 60 * 60 * 1000;
+            now.mockReturnValue(0);
+            await asyncCryptoStore.storeEndToEndSessionProblem("device1", "no_olm", false);
+            await asyncCryptoStore.storeEndToEndSessionProblem("device2", "no_olm", false);
+            now.mockReturnValue(day);
+            await asyncCryptoStore.storeEndToEndSessionProblem("device2", "wedged", true);
+            now.mockReturnValue(40 * day);
+
+            const report = await asyncCryptoStore.pruneStaleRecords();
+            now.mockRestore();
+
+            expect(report.sessionProblems).toEqual(1);
+            expect(await asyncCryptoStore.getEndToEndSessionProblem("device1", -1)).toEqual({
+                type: "no_olm",
+                fixed: false,
+                time: 0,
+            });
+            expect(await asyncCryptoStore.getEndToEndSessionProblem("device2", -1)).toEqual({
+                type: "wedged",
+                fixed: true,
+                time: day,
+            });
+        });
+
+        test("forgets notified devices that are no longer in the device list", async () => {
+            const olmDevice = (userId: string, deviceId: string): IOlmDevice<DeviceInfo> => ({
+                userId,
+                deviceInfo: new DeviceInfo(deviceId),
+            });
+            const devices = [
+                olmDevice("@alice:example.org", "KEPT"),
+                olmDevice("@alice:example.org", "GONE"),
+                olmDevice("@bob:example.org", "GONE"),
+            ];
+            await asyncCryptoStore.filterOutNotifiedErrorDevices(devices);
+
+            // Nothing is removed while there is no device list.
+            expect((await asyncCryptoStore.pruneStaleRecords()).notifiedErrorDevices).toEqual([]);
+
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndDeviceData(
+                    {
+                        devices: {
+                            "@alice:example.org": { KEPT: { keys: {}, algorithms: [], verified: 0, known: true } },
+                        },
+                        trackingStatus: {},
+                    },
+                    txn,
+                );
+            });
+            const report = await asyncCryptoStore.pruneStaleRecords();
+
+            expect(report.notifiedErrorDevices).toEqual([
+                { userId: "@alice:example.org", deviceId: "GONE" },
+                { userId: "@bob:example.org", deviceId: "GONE" },
+            ]);
+            expect(await asyncCryptoStore.filterOutNotifiedErrorDevices(devices)).toEqual(devices.slice(1));
+        });
+
+        test("removes the chunks of overwritten values only", async () => {
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "s1", sessionData, txn);
+            });
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "s1", sessionData, txn);
+            });
+            // Chunks left behind by an interrupted write, and ones of a write that is still going on.
+            const chunkPrefix = "crypto.chunks/" + encodeURIComponent("crypto.inboundgroupsessions/sender/s1");
+            await storage.setItem(`${chunkPrefix}/0/0`, "stale");
+            await storage.setItem(`${chunkPrefix}/2/0`, "upcoming");
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+
+            const report = await asyncCryptoStore.pruneStaleRecords();
+
+            expect(report.staleChunks).toEqual(1);
+            expect(await storage.getItem(`${chunkPrefix}/0/0`)).toBeNull();
+            expect(await storage.getItem(`${chunkPrefix}/2/0`)).toEqual("upcoming");
+            const cb = jest.fn();
+            await asyncCryptoStore.doTxn("readonly", [], (txn) =>
+                asyncCryptoStore.getEndToEndInboundGroupSession("sender", "s1", txn, cb),
+            );
+            expect(cb).toHaveBeenCalledWith(sessionData, null);
+        });
+
+        test("keeps key requests that are yet to be sent or cancelled", async () => {
+            const requests = [
+                keyRequest("unsent", "s1", RoomKeyRequestState.Unsent),
+                keyRequest("cancelling", "s2", RoomKeyRequestState.CancellationPending),
+                keyRequest("resending", "s3", RoomKeyRequestState.CancellationPendingAndWillResend),
+            ];
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                for (const request of requests) {
+                    const { sender_key: senderKey, session_id: sessionId } = request.requestBody;
+                    asyncCryptoStore.storeEndToEndInboundGroupSession(senderKey, sessionId, sessionData, txn);
+                }
+            });
+            for (const request of requests) {
+                await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(request);
+            }
+
+            const report = await asyncCryptoStore.pruneStaleRecords({ olm });
+
+            expect(report.keyRequests).toEqual([]);
+            for (const request of requests) {
+                expect(await asyncCryptoStore.getOutgoingRoomKeyRequest(request.requestBody)).toEqual(request);
+            }
+        });
+
+        test("keeps key requests for sessions that are missing earlier messages", async () => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession(
+                    "sender",
+                    "forwarded",
+                    { ...sessionData, session: "forwarded-megolm-session" },
+                    txn,
+                );
+            });
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(keyRequest("req1", "forwarded"));
+
+            const report = await asyncCryptoStore.pruneStaleRecords({ olm });
+
+            expect(report.keyRequests).toEqual([]);
+            expect(await asyncCryptoStore.getAllOutgoingRoomKeyRequestsByState(RoomKeyRequestState.Sent)).toHaveLength(
+                1,
+            );
+        });
+
+        test("keeps key requests without Olm", async () => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "known", sessionData, txn);
+            });
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(keyRequest("req1", "known"));
+
+            expect((await asyncCryptoStore.pruneStaleRecords()).keyRequests).toEqual([]);
+        });
+
+        test("only removes what the rules allow", async () => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "known", sessionData, txn);
+            });
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(keyRequest("req1", "known"));
+
+            const report = await asyncCryptoStore.pruneStaleRecords({ keyRequestsForKnownSessions: false });
+
+            expect(report.keyRequests).toEqual([]);
+            expect(await asyncCryptoStore.getAllOutgoingRoomKeyRequestsByState(1)).toHaveLength(1);
+        });
+
+        test("prunes on a schedule", async () => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "known", sessionData, txn);
+            });
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest(keyRequest("req1", "known"));
+
+            const report = await new Promise<PruneReport>((resolve) => {
+                const stop = asyncCryptoStore.schedulePruning(10, { olm }, (report) => {
+                    stop();
+                    resolve(report);
+                });
+            });
+
+            expect(report.keyRequests).toEqual(["req1"]);
+        });
+    });
+
+    describe("read cache", () => {
+        beforeEach(() => {
+            asyncCryptoStore = new AsyncCryptoStore(storage, { readCacheSize: 1024 * 1024, maxValueLength: 16 });
+        });
+
+        const storeAccount = async (account: string): Promise<void> => {
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeAccount(txn, account);
+            });
+        };
+
+        const getAccount = async (): Promise<string | null> => {
+            let result: string | null = null;
+            await asyncCryptoStore.doTxn("readonly", [], (txn) => {
+                asyncCryptoStore.getAccount(txn, (account) => (result = account));
+            });
+            return result;
+        };
+
+        test("serves values read before from memory", async () => {
+            await storage.setItem("crypto.account", JSON.stringify("a long pickled account"));
+            const getItem = jest.spyOn(storage, "getItem");
+
+            expect(await getAccount()).toEqual("a long pickled account");
+            expect(await getAccount()).toEqual("a long pickled account");
+
+            expect(getItem).toHaveBeenCalledTimes(1);
+            expect(asyncCryptoStore.getReadCacheStats()).toEqual(expect.objectContaining({ hits: 1, misses: 1 }));
+        });
+
+        test("is updated by writes and deletes", async () => {
+            await storeAccount("first");
+            expect(await getAccount()).toEqual("first");
+            await storeAccount("a second account, long enough to be chunked");
+            expect(await getAccount()).toEqual("a second account, long enough to be chunked");
+
+            await asyncCryptoStore.deleteAllData();
+
+            expect(await getAccount()).toBeNull();
+            expect(asyncCryptoStore.getReadCacheStats()!.misses).toEqual(1);
+        });
+
+        test("sees the pending writes of a transaction, and not those of an aborted one", async () => {
+            await storeAccount("first");
+
+            let inTxn: string | null = null;
+            await expect(
+                asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                    asyncCryptoStore.storeAccount(txn, "second");
+                    asyncCryptoStore.getAccount(txn, (account) => (inTxn = account));
+                    throw new Error("abort");
+                }),
+            ).rejects.toThrow("abort");
+
+            expect(inTxn).toEqual("second");
+            expect(await getAccount()).toEqual("first");
+        });
+    });
+
+    describe("storage stats", () => {
+        const sessionData: InboundGroupSessionData = {
+            room_id: "!room:example.org",
+            session: "pickled-megolm-session",
+            forwardingCurve25519KeyChain: [],
+        };
+
+        test("counts the records of each category", async () => {
+            await asyncCryptoStore.startup();
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeAccount(txn, "pickled-account");
+                asyncCryptoStore.storeEndToEndSession("devicekey1", "olm1", { sessionId: "olm1" }, txn);
+                asyncCryptoStore.storeEndToEndSession("devicekey1", "olm2", { sessionId: "olm2" }, txn);
+                asyncCryptoStore.storeEndToEndSession("devicekey/2", "olm3", { sessionId: "olm3" }, txn);
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "megolm1", sessionData, txn);
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "megolm2", sessionData, txn);
+                asyncCryptoStore.storeEndToEndInboundGroupSessionWithheld(
+                    "sender",
+                    "megolm3",
+                    { room_id: "!room:example.org", code: "m.unverified", reason: "not verified" },
+                    txn,
+                );
+                asyncCryptoStore.storeEndToEndRoom("!room:example.org", { algorithm: "m.megolm.v1.aes-sha2" }, txn);
+            });
+            await asyncCryptoStore.storeEndToEndSessionProblem("devicekey1", "no_olm", false);
+            await asyncCryptoStore.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "megolm2" }]);
+            await asyncCryptoStore.getOrAddOutgoingRoomKeyRequest({
+                requestId: "req1",
+                recipients: [{ userId: "@alice:example.org", deviceId: "DEVICE" }],
+                requestBody: {
+                    algorithm: "m.megolm.v1.aes-sha2",
+                    room_id: "!room:example.org",
+                    sender_key: "sender",
+                    session_id: "megolm3",
+                },
+                state: 1,
+            });
+
+            const stats = await asyncCryptoStore.getStorageStats();
+
+            expect(stats.olmSessions.count).toEqual(3);
+            expect(Object.keys(stats.olmSessionsByDevice).sort()).toEqual(["devicekey/2", "devicekey1"]);
+            expect(stats.olmSessionsByDevice["devicekey1"].count).toEqual(2);
+            expect(stats.sessionProblems.count).toEqual(1);
+            expect(stats.inboundGroupSessions.count).toEqual(2);
+            expect(stats.inboundGroupSessions.bytes).toBeGreaterThan(2 * JSON.stringify(sessionData).length);
+            expect(stats.inboundGroupSessionsWithheld.count).toEqual(1);
+            expect(stats.outgoingKeyRequests.count).toEqual(1);
+            expect(stats.outgoingKeyRequestsByState).toEqual({ 1: 1 });
+            expect(stats.rooms.count).toEqual(1);
+            expect(stats.backupQueue.count).toEqual(1);
+            // The account, and the store's own bookkeeping.
+            expect(stats.other.count).toBeGreaterThanOrEqual(1);
+            expect(stats.total.count).toEqual(10 + stats.other.count);
+        });
+
+        test("counts chunks towards the value they are part of", async () => {
+            asyncCryptoStore = new AsyncCryptoStore(storage, { maxValueLength: 16 });
+            await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+                asyncCryptoStore.storeEndToEndInboundGroupSession("sender", "megolm1", sessionData, txn);
+            });
+
+            const stats = await asyncCryptoStore.getStorageStats();
+
+            expect(stats.inboundGroupSessions.count).toEqual(1);
+            expect(stats.inboundGroupSessions.bytes).toBeGreaterThan(JSON.stringify(sessionData).length);
+            expect(stats.total.count).toEqual(stats.inboundGroupSessions.count + stats.other.count);
+        });
+    });
+});
+
+describe("AsyncCryptoStore storage stats on a backend that reports sizes", () => {
+    test("doesn't read values", async () => {
+        const db = new MockSQLiteDatabase();
+        const store = new AsyncCryptoStore(new SQLiteAsyncStore(db));
+        await store.doTxn("readwrite", [], (txn) => {
+            store.storeEndToEndSession("devicekey", "olm1", { sessionId: "olm1", session: "pickled" }, txn);
+        });
+        const executeSql = jest.spyOn(db, "executeSql");
+
+        const stats = await store.getStorageStats();
+
+        expect(stats.olmSessions.count).toEqual(1);
+        expect(executeSql.mock.calls.map(([statement]) => statement)).not.toContainEqual(
+            expect.stringMatching(/^SELECT key, value /),
+        );
+    });
+});
+
+describe("AsyncCryptoStore read cache", () => {
+    test("doesn't keep a value that was read while it was being deleted", async () => {
+        const storage = new MockAsyncStore();
+        const store = new AsyncCryptoStore(storage, { readCacheSize: 1024 * 1024 });
+        const position: MigrationPosition = { phase: "olm_sessions", cursor: "olm1", done: 1, skipped: 0 };
+        await store.setMigrationPosition(position);
+        const removeItem = storage.removeItem.bind(storage);
+        let readDuringDelete: MigrationPosition | null = null;
+        jest.spyOn(storage, "removeItem").mockImplementationOnce(async (key) => {
+            // The backend still holds the value until the removal is done.
+            readDuringDelete = await store.getMigrationPosition();
+            await removeItem(key);
+        });
+
+        await store.setMigrationPosition(null);
+
+        expect(readDuringDelete).toEqual(position);
+        expect(await store.getMigrationPosition()).toBeNull();
+    });
+});
+
+describe("AsyncCryptoStore tracing", () => {
+    let storage: MockAsyncStore;
+    let traces: CryptoStoreTrace[];
+    let logger: Logger;
+    let store: AsyncCryptoStore;
+
+    beforeEach(() => {
+        storage = new MockAsyncStore();
+        traces = [];
+        logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+        store = new AsyncCryptoStore(storage, { logger, onTrace: (trace): number => traces.push(trace) });
+    });
+
+    test("reports operations and transactions", async () => {
+        await store.doTxn("readwrite", ["sessions"], (txn) => {
+            store.storeEndToEndSession("devicekey", "olm1", { sessionId: "olm1" }, txn);
+        });
+        await store.getMigrationState();
+
+        expect(traces).toEqual([
+            {
+                kind: "operation",
+                method: "storeEndToEndSession",
+                category: "sessions",
+                duration: expect.any(Number),
+                outcome: "success",
+            },
+            {
+                kind: "transaction",
+                method: "doTxn",
+                category: null,
+                mode: "readwrite",
+                stores: ["sessions"],
+                duration: expect.any(Number),
+                outcome: "success",
+            },
+            {
+                kind: "operation",
+                method: "getMigrationState",
+                category: "migration",
+                duration: expect.any(Number),
+                outcome: "success",
+            },
+        ]);
+    });
+
+    test("reports failures, and logs failed transactions to the logger passed to doTxn", async () => {
+        const error = new Error("storage failure");
+        jest.spyOn(storage, "getItem").mockRejectedValue(error);
+        const log = { error: jest.fn() } as unknown as Logger;
+
+        await expect(
+            store.doTxn("readonly", ["account"], (txn) => store.getAccount(txn, () => {}), log),
+        ).rejects.toThrow(error);
+
+        expect(traces.map((t) => [t.method, t.outcome, t.error])).toEqual([
+            ["getAccount", "error", error],
+            ["doTxn", "error", error],
+        ]);
+        expect(log.error).toHaveBeenCalledWith(
+            expect.stringContaining("Failed readonly crypto store transaction"),
+            error,
+        );
+        expect(logger.error).not.toHaveBeenCalled();
+    });
+
+    test("logs problems to the configured logger", async () => {
+        await storage.setItem("crypto.sessions/devicekey/olm1", "{not json");
+
+        expect(await store.getEndToEndSessionsBatch()).toBeNull();
+
+        expect(logger.error).toHaveBeenCalledWith("Skipping unreadable session devicekey/olm1", expect.any(Error));
+    });
+
+    test("keeps working if the hook throws", async () => {
+        store = new AsyncCryptoStore(storage, {
+            logger,
+            onTrace: (): void => {
+                throw new Error("hook failure");
+            },
+        });
+
+        await store.setMigrationState(1);
+
+        expect(await store.getMigrationState()).toEqual(1);
+        expect(logger.warn).toHaveBeenCalled();
+    });
+});
+
+describe("AsyncCryptoStore shared between JS contexts", () => {
+    let storage: MockAsyncStore;
+    let app: AsyncCryptoStore;
+    let notifications: AsyncCryptoStore;
+
+    beforeEach(async () => {
+        storage = new MockAsyncStore();
+        app = new AsyncCryptoStore(storage, { lock: { holder: "app", pollInterval: 5, settleDelay: 0 } });
+        notifications = new AsyncCryptoStore(storage, {
+            lock: { holder: "notifications", pollInterval: 5, settleDelay: 0 },
+        });
+        await app.startup();
+        await notifications.startup();
+    });
+
+    test("holds the lock during read-write transactions", async () => {
+        let holder: LockHolder | null = null;
+        const setItem = storage.setItem.bind(storage);
+        jest.spyOn(storage, "setItem").mockImplementation(async (key, value): Promise<void> => {
+            if (key.startsWith("crypto.sessions/")) {
+                holder = await notifications.getLockHolder();
+            }
+            return setItem(key, value);
+        });
+
+        await app.doTxn("readwrite", ["sessions"], (txn) => {
+            app.storeEndToEndSession("devicekey", "olm1", { sessionId: "olm1" }, txn);
+        });
+
+        expect(holder).toEqual({ holder: "app", expires: expect.any(Number) });
+        expect(await notifications.getLockHolder()).toBeNull();
+    });
+
+    describe("holds the lock while writing outside transactions", () => {
+        // Records who held the lock during each write other than those of the lock itself.
+        const recordHolders = (): (string | undefined)[] => {
+            const holders: (string | undefined)[] = [];
+            const setItem = storage.setItem.bind(storage);
+            jest.spyOn(storage, "setItem").mockImplementation(async (key, value): Promise<void> => {
+                if (key !== "crypto.lock" && key !== "crypto.last_change") {
+                    holders.push((await notifications.getLockHolder())?.holder);
+                }
+                return setItem(key, value);
+            });
+            return holders;
+        };
+
+        test("in methods that write several keys", async () => {
+            const holders = recordHolders();
+
+            await app.getOrAddOutgoingRoomKeyRequest({
+                requestId: "req1",
+                requestTxnId: "txn1",
+                requestBody: { algorithm: "alg", room_id: "!room:example.org", sender_key: "sk", session_id: "s1" },
+                recipients: [{ userId: "@alice:example.org", deviceId: "DEVICE" }],
+                state: RoomKeyRequestState.Sent,
+            });
+
+            expect(holders.length).toBeGreaterThan(0);
+            expect(holders.every((h) => h === "app")).toBe(true);
+        });
+
+        test("on startup", async () => {
+            await storage.removeItem("crypto.created");
+            const late = new AsyncCryptoStore(storage, { lock: { holder: "late", pollInterval: 5, settleDelay: 0 } });
+            const holders = recordHolders();
+
+            await late.startup();
+
+            expect(holders).toEqual(["late"]);
+        });
+    });
+
+    test("doesn't take the lock for read-only transactions", async () => {
+        const setItem = jest.spyOn(storage, "setItem");
+
+        await app.doTxn("readonly", ["sessions"], (txn) => {
+            app.getEndToEndSessions("devicekey", txn, () => {});
+        });
+
+        expect(setItem).not.toHaveBeenCalled();
+    });
+
+    test("sees what another context wrote once it takes the lock", async () => {
+        await notifications.doTxn("readwrite", ["sessions"], (txn) => {
+            notifications.storeEndToEndSession("devicekey", "olm1", { sessionId: "olm1" }, txn);
+        });
+
+        let sessions: Record<string, unknown> | null = null;
+        await app.doTxn("readwrite", ["sessions"], (txn) => {
+            app.getEndToEndSessions("devicekey", txn, (s) => (sessions = s));
+        });
+
+        expect(sessions).toEqual({ olm1: { sessionId: "olm1" } });
+    });
+
+    describe("sees what another context wrote", () => {
+        const readSessions = async (store: AsyncCryptoStore): Promise<Record<string, unknown> | null> => {
+            let sessions: Record<string, unknown> | null = null;
+            await store.doTxn("readonly", ["sessions"], (txn) => {
+                store.getEndToEndSessions("devicekey", txn, (s) => (sessions = s));
+            });
+            return sessions;
+        };
+
+        const storeSession = async (sessionId: string): Promise<void> => {
+            await notifications.doTxn("readwrite", ["sessions"], (txn) => {
+                notifications.storeEndToEndSession("devicekey", sessionId, { sessionId }, txn);
+            });
+        };
+
+        test("in read-only transactions", async () => {
+            expect(await readSessions(app)).toEqual({});
+
+            await storeSession("olm1");
+            expect(await readSessions(app)).toEqual({ olm1: { sessionId: "olm1" } });
+
+            await storeSession("olm2");
+            expect(await readSessions(app)).toEqual({
+                olm1: { sessionId: "olm1" },
+                olm2: { sessionId: "olm2" },
+            });
+        });
+
+        test("outside of transactions", async () => {
+            expect(await app.countSessionsNeedingBackup()).toEqual(0);
+
+            await notifications.markSessionsNeedingBackup([{ senderKey: "senderkey", sessionId: "megolm1" }]);
+
+            expect(await app.countSessionsNeedingBackup()).toEqual(1);
+        });
+
+        test("when opened read-only", async () => {
+            const reader = new AsyncCryptoStore(storage, { readOnly: true });
+            expect(await readSessions(reader)).toEqual({});
+
+            await storeSession("olm1");
+
+            expect(await readSessions(reader)).toEqual({ olm1: { sessionId: "olm1" } });
+        });
+
+        test("through the read cache", async () => {
+            const cached = new AsyncCryptoStore(storage, {
+                readCacheSize: 1024 * 1024,
+                lock: { holder: "cached", pollInterval: 5, settleDelay: 0 },
+            });
+            const readSession = async (): Promise<InboundGroupSessionData | null> => {
+                let session: InboundGroupSessionData | null = null;
+                await cached.doTxn("readonly", ["inbound_group_sessions"], (txn) => {
+                    cached.getEndToEndInboundGroupSession("senderkey", "megolm1", txn, (s) => (session = s));
+                });
+                return session;
+            };
+            const storeSession = async (pickle: string): Promise<void> => {
+                await notifications.doTxn("readwrite", ["inbound_group_sessions"], (txn) => {
+                    notifications.storeEndToEndInboundGroupSession(
+                        "senderkey",
+                        "megolm1",
+                        { room_id: "!room:example.org", session: pickle, forwardingCurve25519KeyChain: [] },
+                        txn,
+                    );
+                });
+            };
+            expect(await readSession()).toBeNull();
+
+            await storeSession("pickle1");
+            expect((await readSession())?.session).toEqual("pickle1");
+
+            await storeSession("pickle2");
+            expect((await readSession())?.session).toEqual("pickle2");
+        });
+
+        test("but not what it wrote itself", async () => {
+            await readSessions(notifications);
+            const getAllKeys = jest.spyOn(storage, "getAllKeys");
+
+            await storeSession("olm1");
+            expect(await readSessions(notifications)).toEqual({ olm1: { sessionId: "olm1" } });
+
+            expect(getAllKeys).not.toHaveBeenCalled();
+        });
+    });
+});
+
+describe("read-only AsyncCryptoStore", () => {
+    let storage: MockAsyncStore;
+    let store: AsyncCryptoStore;
+
+    beforeEach(async () => {
+        storage = new MockAsyncStore();
+        const writable = new AsyncCryptoStore(storage);
+        await writable.startup();
+        await writable.doTxn("readwrite", [], (txn) => {
+            writable.storeEndToEndInboundGroupSession(
+                "senderkey",
+                "megolm1",
+                { room_id: "!room:example.org", session: "pickle", forwardingCurve25519KeyChain: [] },
+                txn,
+            );
+        });
+        store = new AsyncCryptoStore(storage, { readOnly: true });
+    });
+
+    test("loads nothing on startup and looks up single sessions directly", async () => {
+        const getAllKeys = jest.spyOn(storage, "getAllKeys");
+        const setItem = jest.spyOn(storage, "setItem");
+
+        await store.startup();
+        let session: InboundGroupSessionData | null = null;
+        await store.doTxn("readonly", ["inbound_group_sessions"], (txn) => {
+            store.getEndToEndInboundGroupSession("senderkey", "megolm1", txn, (s) => (session = s));
+        });
+
+        expect(session).toEqual({ room_id: "!room:example.org", session: "pickle", forwardingCurve25519KeyChain: [] });
+        expect(getAllKeys).not.toHaveBeenCalled();
+        expect(setItem).not.toHaveBeenCalled();
+    });
+
+    test("rejects methods that write", async () => {
+        await expect(store.setMigrationState(1)).rejects.toThrow(
+            "Can't call setMigrationState on a read-only crypto store",
+        );
+        await expect(
+            store.doTxn("readwrite", ["sessions"], (txn) => {
+                store.storeEndToEndSession("devicekey", "olm1", { sessionId: "olm1" }, txn);
+            }),
+        ).rejects.toThrow("Can't call storeEndToEndSession on a read-only crypto store");
+        await expect(
+            store.markSessionsNeedingBackup([{ senderKey: "senderkey", sessionId: "megolm1" }]),
+        ).rejects.toThrow("Can't call markSessionsNeedingBackup on a read-only crypto store");
+        expect(() => store.schedulePruning(1000)).toThrow("Can't call schedulePruning on a read-only crypto store");
+        expect(await storage.getItem("crypto.migration")).toBeNull();
     });
 });
@@ -0,0 +1,194 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { logger } from "matrix-js-sdk/lib/logger";
+import { ISyncResponse } from "matrix-js-sdk/lib/sync-accumulator";
+
+import AsyncSyncStore from "../src/AsyncSyncStore";
+import MockAsyncStore from "./MockAsyncStore";
+
+const ROOM_ID = "!room:example.org";
+
+function syncResponse(nextBatch: string, body: string): ISyncResponse {
+    return {
+        next_batch: nextBatch,
+        account_data: { events: [{ type: "m.direct", content: {} }] },
+        rooms: {
+            join: {
+                [ROOM_ID]: {
+                    timeline: {
+                        events: [
+                            {
+                                event_id: "$" + nextBatch,
+                                type: "m.room.message",
+                                sender: "@alice:example.org",
+                                content: { body },
+                                origin_server_ts: 1,
+                            },
+                        ],
+                        prev_batch: "p",
+                    },
+                },
+            },
+            invite: {},
+            leave: {},
+            knock: {},
+        },
+    } as unknown as ISyncResponse;
+}
+
+describe("AsyncSyncStore", () => {
+    let storage: MockAsyncStore;
+    let store: AsyncSyncStore;
+
+    beforeEach(() => {
+        storage = new MockAsyncStore();
+        store = new AsyncSyncStore(storage);
+    });
+
+    test("restores the saved sync after a restart", async () => {
+        await store.setSyncData(syncResponse("s1", "hello"));
+        await store.save(true);
+
+        const restarted = new AsyncSyncStore(storage);
+
+        expect(await restarted.isNewlyCreated()).toBe(false);
+        expect(await restarted.getSavedSyncToken()).toEqual("s1");
+        const savedSync = await restarted.getSavedSync();
+        expect(savedSync?.nextBatch).toEqual("s1");
+        expect(savedSync?.accountData).toEqual([{ type: "m.direct", content: {} }]);
+        expect(savedSync?.roomsData.join[ROOM_ID].timeline.events[0].content).toEqual({ body: "hello" });
+    });
+
+    test("is newly created until it has been started", async () => {
+        expect(await store.isNewlyCreated()).toBe(true);
+        expect(await store.getSavedSync()).toBeNull();
+        expect(await store.getSavedSyncToken()).toBeNull();
+    });
+
+    test("only saves when asked to, or when the last save is old", async () => {
+        await store.setSyncData(syncResponse("s1", "hello"));
+        expect(store.wantsSave()).toBe(true);
+        await store.save();
+        await store.setSyncData(syncResponse("s2", "again"));
+
+        expect(store.wantsSave()).toBe(false);
+        await store.save();
+        expect(await new AsyncSyncStore(storage).getSavedSyncToken()).toEqual("s1");
+    });
+
+    test("splits the saved sync into chunks, and removes the chunks of older saves", async () => {
+        store = new AsyncSyncStore(storage, { maxValueLength: 64 });
+        await store.setSyncData(syncResponse("s1", "hello"));
+        await store.save(true);
+        const firstChunks = (await storage.getAllKeys()).filter((k) => k.startsWith("sync.saved_sync/0/"));
+        expect(firstChunks.length).toBeGreaterThan(1);
+
+        await store.setSyncData(syncResponse("s2", "again"));
+        await store.save(true);
+
+        const keys = await storage.getAllKeys();
+        expect(keys.filter((k) => k.startsWith("sync.saved_sync/0/"))).toEqual([]);
+        expect(keys.filter((k) => k.startsWith("sync.saved_sync/1/")).length).toBeGreaterThan(1);
+        expect(await new AsyncSyncStore(storage, { maxValueLength: 64 }).getSavedSyncToken()).toEqual("s2");
+    });
+
+    test("discards an incomplete saved sync", async () => {
+        store = new AsyncSyncStore(storage, { maxValueLength: 64 });
+        await store.setSyncData(syncResponse("s1", "hello"));
+        await store.save(true);
+        await storage.removeItem("sync.saved_sync/0/1");
+        const warn = jest.fn();
+
+        expect(await new AsyncSyncStore(storage, { logger: { ...logger, warn } }).getSavedSync()).toBeNull();
+        expect(warn).toHaveBeenCalledWith("AsyncSyncStore: the saved sync is incomplete, discarding it");
+    });
+
+    test("keeps filter IDs, out-of-band members and client options", async () => {
+        const members = [{ type: "m.room.member", room_id: ROOM_ID, state_key: "@bob:example.org", content: {} }];
+        await store.startup();
+        store.setFilterIdByName("FILTER_SYNC_@alice:example.org", "filter1");
+        await store.setOutOfBandMembers(ROOM_ID, members as never);
+        await store.storeClientOptions({ lazyLoadMembers: true });
+
+        const restarted = new AsyncSyncStore(storage);
+        await restarted.startup();
+
+        expect(restarted.getFilterIdByName("FILTER_SYNC_@alice:example.org")).toEqual("filter1");
+        expect(await restarted.getOutOfBandMembers(ROOM_ID)).toEqual(members);
+        expect(await restarted.getOutOfBandMembers("!other:example.org")).toBeNull();
+        expect(await restarted.getClientOptions()).toEqual({ lazyLoadMembers: true });
+
+        await restarted.clearOutOfBandMembers(ROOM_ID);
+        expect(await restarted.getOutOfBandMembers(ROOM_ID)).toBeNull();
+    });
+
+    test("keeps pending events", async () => {
+        await store.setPendingEvents(ROOM_ID, [{ event_id: "~1" }]);
+
+        expect(await new AsyncSyncStore(storage).getPendingEvents(ROOM_ID)).toEqual([{ event_id: "~1" }]);
+
+        await store.setPendingEvents(ROOM_ID, []);
+        expect(await storage.getAllKeys()).not.toContainEqual(expect.stringContaining("pending_events"));
+    });
+
+    test("queues to-device batches in order across restarts", async () => {
+        const batch = (txnId: string): { txnId: string; eventType: string; batch: [] } => ({
+            txnId,
+            eventType: "m.room_key_request",
+            batch: [],
+        });
+        await store.saveToDeviceBatches([batch("t1"), batch("t2")]);
+
+        const restarted = new AsyncSyncStore(storage);
+        const oldest = await restarted.getOldestToDeviceBatch();
+        expect(oldest).toEqual({ id: 0, ...batch("t1") });
+        await restarted.removeToDeviceBatch(oldest!.id);
+        await restarted.saveToDeviceBatches([batch("t3")]);
+
+        expect(await restarted.getOldestToDeviceBatch()).toEqual({ id: 1, ...batch("t2") });
+        await restarted.removeToDeviceBatch(1);
+        expect(await restarted.getOldestToDeviceBatch()).toEqual({ id: 2, ...batch("t3") });
+        await restarted.removeToDeviceBatch(2);
+        expect(await restarted.getOldestToDeviceBatch()).toBeNull();
+    });
+
+    test("keeps namespaces apart", async () => {
+        const alice = new AsyncSyncStore(storage, { namespace: "@alice:example.org/ALICE" });
+        const bob = new AsyncSyncStore(storage, { namespace: "@bob:example.org/BOB" });
+        await alice.setSyncData(syncResponse("alice1", "hello"));
+        await alice.save(true);
+
+        expect(await bob.getSavedSyncToken()).toBeNull();
+        expect(
+            await new AsyncSyncStore(storage, { namespace: "@alice:example.org/ALICE" }).getSavedSyncToken(),
+        ).toEqual("alice1");
+    });
+
+    test("deleteAllData deletes only its own keys", async () => {
+        await storage.setItem("someOtherData", "preciousData");
+        await store.setSyncData(syncResponse("s1", "hello"));
+        await store.save(true);
+        store.setFilterIdByName("filter", "filter1");
+
+        await store.deleteAllData();
+
+        expect(await storage.getAllKeys()).toEqual(["someOtherData"]);
+        expect(store.getFilterIdByName("filter")).toBeNull();
+        expect(await store.getSavedSync()).toBeNull();
+        expect(await new AsyncSyncStore(storage).isNewlyCreated()).toBe(true);
+    });
+});
@@ -0,0 +1,169 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import { decryptArchive, encryptArchive } from "../src/CryptoStoreArchive";
+import MockAsyncStore from "./MockAsyncStore";
+
+// Keep the tests fast: the default iteration count is meant for real passphrases.
+const opts = { iterations: 1000 };
+
+describe("CryptoStoreArchive", () => {
+    test("round-trips entries", async () => {
+        const entries: [string, string][] = [
+            ["account", '"thingamabob"'],
+            ["rooms/!room%3Aexample.org", '{"algorithm":"alg"}'],
+        ];
+
+        const archive = await encryptArchive(entries, "passphrase", opts);
+
+        expect(archive).not.toContain("thingamabob");
+        expect(await decryptArchive(archive, "passphrase")).toEqual(entries);
+    });
+
+    test("rejects the wrong passphrase", async () => {
+        const archive = await encryptArchive([["account", '"thingamabob"']], "passphrase", opts);
+
+        await expect(decryptArchive(archive, "wrong")).rejects.toThrow("failed its integrity check");
+    });
+
+    test("rejects tampered headers", async () => {
+        const archive = JSON.parse(await encryptArchive([["account", '"thingamabob"']], "passphrase", opts));
+        archive.kdf.iterations = 999;
+
+        await expect(decryptArchive(JSON.stringify(archive), "passphrase")).rejects.toThrow(
+            "failed its integrity check",
+        );
+    });
+
+    test("rejects malformed headers before deriving the key", async () => {
+        const archive = JSON.parse(await encryptArchive([["account", '"thingamabob"']], "passphrase", opts));
+        const invalid = [
+            { ...archive, kdf: { ...archive.kdf, iterations: 1e12 } },
+            { ...archive, kdf: { ...archive.kdf, iterations: 1.5 } },
+            { ...archive, kdf: { ...archive.kdf, iterations: "1000" } },
+            { ...archive, kdf: { ...archive.kdf, salt: "AAAA" } },
+            { ...archive, nonce: "not base64!" },
+            { ...archive, ciphertext: undefined },
+        ];
+
+        for (const header of invalid) {
+            await expect(decryptArchive(JSON.stringify(header), "passphrase")).rejects.toThrow(
+                "Invalid crypto store archive",
+            );
+        }
+        await expect(encryptArchive([], "passphrase", { iterations: 1e12 })).rejects.toThrow(
+            "The number of iterations must be an integer",
+        );
+    });
+
+    test("rejects unknown formats and versions", async () => {
+        const archive = JSON.parse(await encryptArchive([], "passphrase", opts));
+
+        await expect(decryptArchive("not json", "passphrase")).rejects.toThrow("not valid JSON");
+        await expect(decryptArchive(JSON.stringify({ ...archive, format: "other" }), "passphrase")).rejects.toThrow(
+            "Not a crypto store archive",
+        );
+        await expect(decryptArchive(JSON.stringify({ ...archive, version: 2 }), "passphrase")).rejects.toThrow(
+            "Unsupported crypto store archive version 2",
+        );
+    });
+
+    describe("AsyncCryptoStore", () => {
+        test("exports a store and imports it into another", async () => {
+            const source = new AsyncCryptoStore(new MockAsyncStore());
+            await source.startup();
+            await source.doTxn("readwrite", [], (txn) => {
+                source.storeAccount(txn, "thingamabob");
+                source.storeEndToEndSession("adevicekey", "sess1", { sessionId: "some-id" }, txn);
+                source.storeEndToEndInboundGroupSession(
+                    "senderkey1",
+                    "sessid1",
+                    { room_id: "!room:example.org", session: "some-session", forwardingCurve25519KeyChain: [] },
+                    txn,
+                );
+            });
+            await source.markSessionsNeedingBackup([{ senderKey: "senderkey1", sessionId: "sessid1" }]);
+
+            const archive = await source.exportArchive("passphrase", opts);
+
+            const targetBackend = new MockAsyncStore();
+            await targetBackend.setItem("someOtherData", "preciousData");
+            const target = new AsyncCryptoStore(targetBackend);
+            await target.startup();
+            await target.importArchive(archive, "passphrase");
+
+            const accountCb = jest.fn();
+            const sessionCb = jest.fn();
+            await target.doTxn("readonly", [], (txn) => {
+                target.getAccount(txn, accountCb);
+                target.getEndToEndSession("adevicekey", "sess1", txn, sessionCb);
+            });
+            expect(accountCb).toHaveBeenCalledWith("thingamabob");
+            expect(sessionCb).toHaveBeenCalledWith({ sessionId: "some-id" });
+            expect(await target.countEndToEndInboundGroupSessions()).toEqual(1);
+            expect(await target.countSessionsNeedingBackup()).toEqual(1);
+            expect(await targetBackend.getItem("someOtherData")).toEqual("preciousData");
+        });
+
+        test("can retry an import that failed half way", async () => {
+            const source = new AsyncCryptoStore(new MockAsyncStore());
+            await source.doTxn("readwrite", [], (txn) => {
+                source.storeAccount(txn, "thingamabob");
+                for (let i = 0; i < 120; i++) {
+                    source.storeEndToEndSession("adevicekey", `sess${i}`, { sessionId: `sess${i}` }, txn);
+                }
+            });
+            const archive = await source.exportArchive("passphrase", opts);
+            const targetBackend = new MockAsyncStore();
+            const target = new AsyncCryptoStore(targetBackend);
+            await target.startup();
+            // Fails the second batch of entries.
+            const setItem = targetBackend.setItem.bind(targetBackend);
+            let writes = 0;
+            jest.spyOn(targetBackend, "setItem").mockImplementation(async (key, value): Promise<void> => {
+                if (key.startsWith("crypto.sessions/") && ++writes > 50) {
+                    throw new Error("disk full");
+                }
+                return setItem(key, value);
+            });
+
+            await expect(target.importArchive(archive, "passphrase")).rejects.toThrow("disk full");
+            expect(await target.containsData()).toBe(false);
+
+            jest.restoreAllMocks();
+            await target.importArchive(archive, "passphrase");
+
+            expect(await target.containsData()).toBe(true);
+            await target.doTxn("readonly", [], (txn) => {
+                target.countEndToEndSessions(txn, (count) => expect(count).toEqual(120));
+            });
+            expect(await targetBackend.getItem("crypto.import_pending")).toBeNull();
+        });
+
+        test("only imports into an empty store", async () => {
+            const source = new AsyncCryptoStore(new MockAsyncStore());
+            const archive = await source.exportArchive("passphrase", opts);
+
+            const target = new AsyncCryptoStore(new MockAsyncStore());
+            await target.doTxn("readwrite", [], (txn) => {
+                target.storeAccount(txn, "thingamabob");
+            });
+
+            await expect(target.importArchive(archive, "passphrase")).rejects.toThrow("empty store");
+        });
+    });
+});
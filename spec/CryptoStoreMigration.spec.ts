@@ -0,0 +1,323 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { RoomKeyRequestState } from "matrix-js-sdk/lib/crypto/OutgoingRoomKeyRequestManager";
+import { CryptoStore } from "matrix-js-sdk/lib/crypto/store/base";
+import { IndexedDBCryptoStore } from "matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store";
+import { MemoryCryptoStore } from "matrix-js-sdk/lib/crypto/store/memory-crypto-store";
+import { IDBFactory } from "fake-indexeddb";
+
+import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import { CryptoStoreMigrationProgress, migrateCryptoStore } from "../src/CryptoStoreMigration";
+import { UnmigratableRecord } from "../src/LegacyCryptoMigration";
+import MockAsyncStore from "./MockAsyncStore";
+
+const keyRequest = {
+    requestId: "req1",
+    requestTxnId: "txn1",
+    requestBody: { algorithm: "alg", room_id: "!room:example.org", sender_key: "sk", session_id: "s1" },
+    recipients: [{ userId: "@alice:example.org", deviceId: "DEVICE" }],
+    state: RoomKeyRequestState.Sent,
+};
+
+// The memory store relies on sender keys being 43 characters long, like real curve25519 keys.
+const senderKey = "K".repeat(43);
+
+const parkedHistory = {
+    senderId: "@bob:example.org",
+    senderKey,
+    sessionId: "megolm1",
+    sessionKey: "exported-megolm",
+    keysClaimed: {},
+    forwardingCurve25519KeyChain: [],
+};
+
+async function populate(store: CryptoStore): Promise<void> {
+    await store.doTxn("readwrite", [], (txn) => {
+        store.storeAccount(txn, "pickled-account");
+        store.storeEndToEndSession(
+            "devicekey",
+            "olm1",
+            { deviceKey: "devicekey", sessionId: "olm1", session: "pickled-olm" },
+            txn,
+        );
+        store.storeEndToEndInboundGroupSession(
+            senderKey,
+            "megolm1",
+            { room_id: "!room:example.org", session: "pickled-megolm", forwardingCurve25519KeyChain: [] },
+            txn,
+        );
+        store.storeEndToEndInboundGroupSessionWithheld(
+            senderKey,
+            "megolm1",
+            {
+                room_id: "!room:example.org",
+                code: "m.unverified",
+                reason: "not verified",
+            },
+            txn,
+        );
+        store.storeEndToEndRoom("!room:example.org", { algorithm: "m.megolm.v1.aes-sha2" }, txn);
+    });
+    await store.markSessionsNeedingBackup([{ senderKey, sessionId: "megolm1" }]);
+    await store.addSharedHistoryInboundGroupSession("!room:example.org", senderKey, "megolm1");
+    await store.getOrAddOutgoingRoomKeyRequest(keyRequest);
+}
+
+async function expectPopulated(store: CryptoStore): Promise<void> {
+    await store.doTxn("readonly", [], (txn) => {
+        store.getAccount(txn, (account) => expect(account).toEqual("pickled-account"));
+        store.getEndToEndSession("devicekey", "olm1", txn, (session) =>
+            expect(session).toEqual(expect.objectContaining({ session: "pickled-olm" })),
+        );
+        store.getEndToEndInboundGroupSession(senderKey, "megolm1", txn, (session, withheld) => {
+            expect(session).toEqual(expect.objectContaining({ session: "pickled-megolm" }));
+            expect(withheld).toEqual(expect.objectContaining({ code: "m.unverified" }));
+        });
+        store.getEndToEndRooms(txn, (rooms) =>
+            expect(rooms).toEqual({ "!room:example.org": { algorithm: "m.megolm.v1.aes-sha2" } }),
+        );
+    });
+    expect(await store.countSessionsNeedingBackup()).toEqual(1);
+    expect(await store.getSharedHistoryInboundGroupSessions("!room:example.org")).toEqual([[senderKey, "megolm1"]]);
+    expect(await store.getOutgoingRoomKeyRequest(keyRequest.requestBody)).toEqual(keyRequest);
+}
+
+describe("migrateCryptoStore", () => {
+    let asyncCryptoStore: AsyncCryptoStore;
+    let memoryCryptoStore: MemoryCryptoStore;
+
+    beforeEach(async () => {
+        asyncCryptoStore = new AsyncCryptoStore(new MockAsyncStore());
+        await asyncCryptoStore.startup();
+        memoryCryptoStore = new MemoryCryptoStore();
+        await memoryCryptoStore.startup();
+    });
+
+    test("copies everything out of an AsyncCryptoStore and deletes the source", async () => {
+        await populate(asyncCryptoStore);
+        const progress: CryptoStoreMigrationProgress[] = [];
+
+        await migrateCryptoStore(asyncCryptoStore, memoryCryptoStore, { onProgress: (p) => progress.push(p) });
+
+        await expectPopulated(memoryCryptoStore);
+        expect(await asyncCryptoStore.containsData()).toBe(false);
+        expect(progress).toContainEqual({ phase: "olm_sessions", done: 1, total: 1 });
+        expect(progress).toContainEqual({ phase: "inbound_group_sessions", done: 1, total: 1 });
+        expect(progress[progress.length - 1]).toEqual({ phase: "cleanup", done: 1, total: 1 });
+    });
+
+    test("copies everything back into an AsyncCryptoStore", async () => {
+        await populate(memoryCryptoStore);
+
+        await migrateCryptoStore(memoryCryptoStore, asyncCryptoStore);
+
+        await expectPopulated(asyncCryptoStore);
+    });
+
+    test("can keep the source", async () => {
+        await populate(asyncCryptoStore);
+
+        await migrateCryptoStore(asyncCryptoStore, memoryCryptoStore, { deleteSource: false });
+
+        await expectPopulated(asyncCryptoStore);
+    });
+
+    test("refuses to overwrite an existing account", async () => {
+        await populate(asyncCryptoStore);
+        await memoryCryptoStore.doTxn("readwrite", [], (txn) => memoryCryptoStore.storeAccount(txn, "other-account"));
+
+        await expect(migrateCryptoStore(asyncCryptoStore, memoryCryptoStore)).rejects.toThrow("already holds");
+        await expectPopulated(asyncCryptoStore);
+    });
+
+    test("copies large stores in batches", async () => {
+        await asyncCryptoStore.doTxn("readwrite", [], (txn) => {
+            asyncCryptoStore.storeAccount(txn, "pickled-account");
+            for (let i = 0; i < 120; i++) {
+                asyncCryptoStore.storeEndToEndSession(
+                    "devicekey",
+                    `olm${i}`,
+                    { deviceKey: "devicekey", sessionId: `olm${i}`, session: `pickled-olm${i}` },
+                    txn,
+                );
+                asyncCryptoStore.storeEndToEndInboundGroupSession(
+                    senderKey,
+                    `megolm${i}`,
+                    { room_id: "!room:example.org", session: `pickled-megolm${i}`, forwardingCurve25519KeyChain: [] },
+                    txn,
+                );
+            }
+        });
+        const getAllSessions = jest.spyOn(asyncCryptoStore, "getAllEndToEndSessions");
+        const getAllInboundGroupSessions = jest.spyOn(asyncCryptoStore, "getAllEndToEndInboundGroupSessions");
+        const progress: CryptoStoreMigrationProgress[] = [];
+
+        await migrateCryptoStore(asyncCryptoStore, memoryCryptoStore, { onProgress: (p) => progress.push(p) });
+
+        expect(getAllSessions).not.toHaveBeenCalled();
+        expect(getAllInboundGroupSessions).not.toHaveBeenCalled();
+        expect(await memoryCryptoStore.countEndToEndInboundGroupSessions()).toEqual(120);
+        expect(progress.filter((p) => p.phase === "olm_sessions").map((p) => p.done)).toEqual([0, 50, 100, 120]);
+    });
+
+    test("checks a sample of the copied sessions", async () => {
+        await populate(asyncCryptoStore);
+        const storeEndToEndSession = memoryCryptoStore.storeEndToEndSession.bind(memoryCryptoStore);
+        jest.spyOn(memoryCryptoStore, "storeEndToEndSession").mockImplementation(
+            (deviceKey, sessionId, sessionInfo, txn): void =>
+                storeEndToEndSession(deviceKey, sessionId, { ...sessionInfo, session: "corrupted" }, txn),
+        );
+
+        await expect(migrateCryptoStore(asyncCryptoStore, memoryCryptoStore)).rejects.toThrow(
+            "failed verification: Olm session olm1 differs",
+        );
+        await expectPopulated(asyncCryptoStore);
+    });
+
+    test("clears the target if the copy fails, so that it can be retried", async () => {
+        await populate(memoryCryptoStore);
+        jest.spyOn(asyncCryptoStore, "countEndToEndInboundGroupSessions").mockResolvedValueOnce(0);
+
+        await expect(migrateCryptoStore(memoryCryptoStore, asyncCryptoStore)).rejects.toThrow(
+            "failed verification: inbound group session counts differ",
+        );
+        expect(await asyncCryptoStore.containsData()).toBe(false);
+
+        await migrateCryptoStore(memoryCryptoStore, asyncCryptoStore);
+        await expectPopulated(asyncCryptoStore);
+    });
+
+    test("leaves the source alone if verification fails", async () => {
+        await populate(asyncCryptoStore);
+        jest.spyOn(memoryCryptoStore, "countEndToEndInboundGroupSessions").mockResolvedValue(0);
+
+        await expect(migrateCryptoStore(asyncCryptoStore, memoryCryptoStore)).rejects.toThrow(
+            "failed verification: inbound group session counts differ",
+        );
+        await expectPopulated(asyncCryptoStore);
+    });
+
+    test("refuses a source that holds sessions but no account", async () => {
+        const store = new MockAsyncStore();
+        const secureStore = new MockAsyncStore();
+        const withSecureStore = new AsyncCryptoStore(store, { secureStore });
+        await withSecureStore.startup();
+        await populate(withSecureStore);
+        // Opened without its secure store, the source can't see its account.
+        const source = new AsyncCryptoStore(store);
+        await source.startup();
+
+        await expect(migrateCryptoStore(source, memoryCryptoStore)).rejects.toThrow(
+            "Can't migrate a crypto store that holds sessions but no account",
+        );
+        await expectPopulated(withSecureStore);
+    });
+
+    test("copies history parked for rooms without encryption settings, and leaves it in the source", async () => {
+        await populate(asyncCryptoStore);
+        await asyncCryptoStore.addParkedSharedHistory("!other:example.org", parkedHistory);
+
+        await migrateCryptoStore(asyncCryptoStore, memoryCryptoStore, { deleteSource: false });
+
+        expect(await memoryCryptoStore.takeParkedSharedHistory("!other:example.org")).toEqual([parkedHistory]);
+        expect(await asyncCryptoStore.getAllParkedSharedHistory()).toEqual(
+            new Map([["!other:example.org", [parkedHistory]]]),
+        );
+    });
+
+    test("reports unreadable sessions and leaves them out of the verification", async () => {
+        const storage = new MockAsyncStore();
+        const source = new AsyncCryptoStore(storage);
+        await source.startup();
+        await populate(source);
+        await source.doTxn("readwrite", [], (txn) =>
+            source.storeEndToEndSession(
+                "devicekey",
+                "olm2",
+                { deviceKey: "devicekey", sessionId: "olm2", session: "pickled-olm2" },
+                txn,
+            ),
+        );
+        await storage.setItem("crypto.sessions/devicekey/olm2", "{not json");
+        const reopened = new AsyncCryptoStore(storage);
+        await reopened.startup();
+        const error = jest.spyOn(console, "error").mockImplementation(() => {});
+        const unmigratable: UnmigratableRecord[] = [];
+        const progress: CryptoStoreMigrationProgress[] = [];
+
+        await migrateCryptoStore(reopened, memoryCryptoStore, {
+            onProgress: (p) => progress.push(p),
+            onUnmigratable: (r) => unmigratable.push(r),
+        });
+
+        await expectPopulated(memoryCryptoStore);
+        expect(unmigratable).toEqual([expect.objectContaining({ phase: "olm_sessions" })]);
+        expect(progress).toContainEqual({ phase: "olm_sessions", done: 2, total: 2 });
+        error.mockRestore();
+    });
+
+    test("pages through the sessions of an IndexedDBCryptoStore", async () => {
+        const source = new IndexedDBCryptoStore(new IDBFactory(), "crypto");
+        await source.startup();
+        await source.doTxn("readwrite", IndexedDBCryptoStore.STORE_ACCOUNT, (txn) =>
+            source.storeAccount(txn, "pickled-account"),
+        );
+        await source.doTxn(
+            "readwrite",
+            [IndexedDBCryptoStore.STORE_SESSIONS, IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS],
+            (txn) => {
+                for (let i = 0; i < 120; i++) {
+                    // Sessions of several devices, so that pages end in the middle of a device.
+                    const deviceKey = `devicekey${i % 3}`;
+                    source.storeEndToEndSession(
+                        deviceKey,
+                        `olm${i}`,
+                        { deviceKey, sessionId: `olm${i}`, session: `pickled-olm${i}` },
+                        txn,
+                    );
+                    source.storeEndToEndInboundGroupSession(
+                        senderKey,
+                        `megolm${i}`,
+                        {
+                            room_id: "!room:example.org",
+                            session: `pickled-megolm${i}`,
+                            forwardingCurve25519KeyChain: [],
+                        },
+                        txn,
+                    );
+                }
+            },
+        );
+        await source.addParkedSharedHistory("!other:example.org", parkedHistory);
+        const getAllSessions = jest.spyOn(source, "getAllEndToEndSessions");
+        const progress: CryptoStoreMigrationProgress[] = [];
+
+        await migrateCryptoStore(source, asyncCryptoStore, { onProgress: (p) => progress.push(p) });
+
+        expect(getAllSessions).not.toHaveBeenCalled();
+        expect(progress.filter((p) => p.phase === "olm_sessions").map((p) => p.done)).toEqual([0, 50, 100, 120]);
+        await asyncCryptoStore.doTxn("readonly", [], (txn) => {
+            asyncCryptoStore.countEndToEndSessions(txn, (count) => expect(count).toEqual(120));
+            asyncCryptoStore.getEndToEndSession("devicekey2", "olm119", txn, (session) =>
+                expect(session).toEqual(expect.objectContaining({ session: "pickled-olm119" })),
+            );
+        });
+        expect(await asyncCryptoStore.countEndToEndInboundGroupSessions()).toEqual(120);
+        expect(await asyncCryptoStore.takeParkedSharedHistory("!other:example.org")).toEqual([parkedHistory]);
+        expect(await source.containsData()).toBe(false);
+    });
+});
@@ -0,0 +1,142 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Logger } from "matrix-js-sdk/lib/logger";
+
+import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import EncryptedAsyncStore from "../src/EncryptedAsyncStore";
+import MockAsyncStore from "./MockAsyncStore";
+import MockBatchAsyncStore from "./MockBatchAsyncStore";
+
+describe("EncryptedAsyncStore", () => {
+    const key = new Uint8Array(32).fill(7);
+    const backend = new MockAsyncStore();
+    let store = new EncryptedAsyncStore(backend, key);
+
+    beforeEach(() => {
+        backend.clear();
+        store = new EncryptedAsyncStore(backend, key);
+    });
+
+    test("stores & retrieves values", async () => {
+        await store.setItem("crypto.rooms/!room:example.org", "some-value");
+
+        expect(await store.getItem("crypto.rooms/!room:example.org")).toEqual("some-value");
+        expect(await store.getItem("crypto.rooms/!other:example.org")).toBeNull();
+        expect(await store.getAllKeys()).toEqual(["crypto.rooms/!room:example.org"]);
+
+        await store.removeItem("crypto.rooms/!room:example.org");
+
+        expect(await store.getAllKeys()).toEqual([]);
+    });
+
+    test("writes neither key names nor values in the clear", async () => {
+        await store.setItem("crypto.rooms/!room:example.org", "some-value");
+
+        const [backendKey] = await backend.getAllKeys();
+        expect(backendKey).toMatch(/^encrypted\./);
+        expect(backendKey).not.toContain("room");
+        expect(await backend.getItem(backendKey)).not.toContain("some-value");
+    });
+
+    test("leaves other keys in the backend alone", async () => {
+        await backend.setItem("someOtherData", "preciousData");
+
+        expect(await store.getAllKeys()).toEqual([]);
+    });
+
+    test("rejects tampered values", async () => {
+        await store.setItem("crypto.account", "some-value");
+        const [backendKey] = await backend.getAllKeys();
+        const value = (await backend.getItem(backendKey))!;
+        await backend.setItem(backendKey, value.slice(0, -4) + (value.endsWith("AAAA") ? "BBBB" : "AAAA"));
+
+        await expect(store.getItem("crypto.account")).rejects.toThrow("Could not decrypt the value");
+    });
+
+    test("rejects values moved to another key", async () => {
+        await store.setItem("crypto.account", "some-value");
+        await store.setItem("crypto.device_data", "other-value");
+        const [accountKey, deviceDataKey] = await backend.getAllKeys();
+        await backend.setItem(deviceDataKey, (await backend.getItem(accountKey))!);
+
+        await expect(store.getItem("crypto.device_data")).rejects.toThrow("Could not decrypt the value");
+    });
+
+    test("can't be read with another key", async () => {
+        await store.setItem("crypto.account", "some-value");
+        const logger = { warn: jest.fn() } as unknown as Logger;
+        const otherStore = new EncryptedAsyncStore(backend, new Uint8Array(32).fill(8), { logger });
+
+        expect(await otherStore.getAllKeys()).toEqual([]);
+        expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("Could not decrypt the name"));
+        expect(await otherStore.getItem("crypto.account")).toBeNull();
+    });
+
+    test("skips keys it can't decrypt the names of", async () => {
+        const logger = { warn: jest.fn() } as unknown as Logger;
+        store = new EncryptedAsyncStore(backend, key, { logger });
+        await store.setItem("crypto.account", "some-value");
+        await backend.setItem("encrypted.not-a-valid-name", "stray");
+        await new EncryptedAsyncStore(backend, new Uint8Array(32).fill(8)).setItem("crypto.account", "foreign");
+
+        expect(await store.getAllKeys()).toEqual(["crypto.account"]);
+        expect(logger.warn).toHaveBeenCalledTimes(2);
+        expect(await new AsyncCryptoStore(store).startup()).toBeInstanceOf(AsyncCryptoStore);
+    });
+
+    test("rejects keys of the wrong length", () => {
+        expect(() => new EncryptedAsyncStore(backend, new Uint8Array(16))).toThrow("needs a 32-byte key");
+    });
+
+    test("supports batch operations with or without backend support", async () => {
+        for (const b of [backend, new MockBatchAsyncStore()]) {
+            const s = new EncryptedAsyncStore(b, key);
+            await s.multiSet([
+                ["a", "1"],
+                ["b", "2"],
+            ]);
+            expect(await s.multiGet(["a", "b", "c"])).toEqual([
+                ["a", "1"],
+                ["b", "2"],
+                ["c", null],
+            ]);
+            await s.multiRemove(["a", "b"]);
+            expect(await s.getAllKeys()).toEqual([]);
+        }
+    });
+
+    test("can back an AsyncCryptoStore", async () => {
+        const cryptoStore = new AsyncCryptoStore(store);
+        await cryptoStore.startup();
+        await cryptoStore.doTxn("readwrite", [], (txn) => {
+            cryptoStore.storeAccount(txn, "thingamabob");
+            cryptoStore.storeEndToEndRoom("!room:example.org", { algorithm: "some-algorithm" }, txn);
+        });
+
+        const restarted = new AsyncCryptoStore(new EncryptedAsyncStore(backend, key));
+        await restarted.startup();
+        const accountCb = jest.fn();
+        const roomsCb = jest.fn();
+        await restarted.doTxn("readonly", [], (txn) => {
+            restarted.getAccount(txn, accountCb);
+            restarted.getEndToEndRooms(txn, roomsCb);
+        });
+
+        expect(accountCb).toHaveBeenCalledWith("thingamabob");
+        expect(roomsCb).toHaveBeenCalledWith({ "!room:example.org": { algorithm: "some-algorithm" } });
+    });
+});
@@ -0,0 +1,101 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import KeyIndex from "../src/KeyIndex";
+
+describe("KeyIndex", () => {
+    let index = new KeyIndex("crypto.", []);
+
+    beforeEach(() => {
+        index = new KeyIndex("crypto.", ["crypto.sessions/", "crypto.inboundgroupsessions/"]);
+        index.load([
+            "crypto.account",
+            "crypto.sessions/dev1/sess1",
+            "crypto.sessions/dev1/sess2",
+            "crypto.sessions/dev2/sess1",
+            "crypto.inboundgroupsessions/sender/sess1",
+            "someOtherData",
+        ]);
+    });
+
+    test("only tracks keys under the root prefix", () => {
+        expect(index.has("crypto.account")).toBe(true);
+        expect(index.has("someOtherData")).toBe(false);
+        expect(index.getKeysWithPrefix("")).not.toContain("someOtherData");
+    });
+
+    test("answers queries for a whole category", () => {
+        expect(index.getKeysWithPrefix("crypto.sessions/")).toEqual([
+            "crypto.sessions/dev1/sess1",
+            "crypto.sessions/dev1/sess2",
+            "crypto.sessions/dev2/sess1",
+        ]);
+        expect(index.countKeysWithPrefix("crypto.sessions/")).toEqual(3);
+    });
+
+    test("answers queries for a prefix inside a category", () => {
+        expect(index.getKeysWithPrefix("crypto.sessions/dev1/")).toEqual([
+            "crypto.sessions/dev1/sess1",
+            "crypto.sessions/dev1/sess2",
+        ]);
+        expect(index.countKeysWithPrefix("crypto.sessions/dev2/")).toEqual(1);
+    });
+
+    test("answers queries spanning several categories", () => {
+        expect(index.getKeysWithPrefix("crypto.")).toHaveLength(5);
+    });
+
+    test("keeps track of added and removed keys", () => {
+        index.add("crypto.sessions/dev3/sess1");
+        index.remove("crypto.sessions/dev1/sess1");
+        index.remove("crypto.account");
+
+        expect(index.getKeysWithPrefix("crypto.sessions/")).toEqual([
+            "crypto.sessions/dev1/sess2",
+            "crypto.sessions/dev2/sess1",
+            "crypto.sessions/dev3/sess1",
+        ]);
+        expect(index.has("crypto.account")).toBe(false);
+    });
+
+    test("pages through a category in order", () => {
+        index.add("crypto.sessions/dev0/sess1");
+
+        expect(index.getKeysAfter("crypto.sessions/", null, 2)).toEqual([
+            "crypto.sessions/dev0/sess1",
+            "crypto.sessions/dev1/sess1",
+        ]);
+        expect(index.getKeysAfter("crypto.sessions/", "crypto.sessions/dev1/sess1", 2)).toEqual([
+            "crypto.sessions/dev1/sess2",
+            "crypto.sessions/dev2/sess1",
+        ]);
+        expect(index.getKeysAfter("crypto.sessions/", "crypto.sessions/dev2/sess1", 2)).toEqual([]);
+    });
+
+    test("keeps pages up to date as keys are added and removed", () => {
+        index.getKeysAfter("crypto.sessions/", null, 10);
+        index.remove("crypto.sessions/dev1/sess1");
+        index.add("crypto.sessions/dev1/sess3");
+        index.add("crypto.sessions/dev1/sess3");
+
+        // Continuing after a key that has since been removed carries on from where it was.
+        expect(index.getKeysAfter("crypto.sessions/", "crypto.sessions/dev1/sess1", 10)).toEqual([
+            "crypto.sessions/dev1/sess2",
+            "crypto.sessions/dev1/sess3",
+            "crypto.sessions/dev2/sess1",
+        ]);
+    });
+});
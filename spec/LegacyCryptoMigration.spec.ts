@@ -0,0 +1,212 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ISessionInfo, MigrationState, SessionExtended } from "matrix-js-sdk/lib/crypto/store/base";
+
+import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import {
+    LegacyCryptoMigrationHandlers,
+    LegacyCryptoMigrationProgress,
+    migrateLegacyCryptoStore,
+    UnmigratableRecord,
+} from "../src/LegacyCryptoMigration";
+import MockAsyncStore from "./MockAsyncStore";
+
+async function populate(store: AsyncCryptoStore, olmCount: number, megolmCount: number): Promise<void> {
+    await store.doTxn("readwrite", [], (txn) => {
+        store.storeAccount(txn, "pickled-account");
+        for (let i = 0; i < olmCount; i++) {
+            const sessionId = `olm${i}`;
+            store.storeEndToEndSession(
+                "devicekey",
+                sessionId,
+                { deviceKey: "devicekey", sessionId, session: `pickled-${sessionId}` },
+                txn,
+            );
+        }
+        for (let i = 0; i < megolmCount; i++) {
+            store.storeEndToEndInboundGroupSession(
+                "senderkey",
+                `megolm${i}`,
+                { room_id: "!room:example.org", session: `pickled-megolm${i}`, forwardingCurve25519KeyChain: [] },
+                txn,
+            );
+        }
+    });
+}
+
+function recordingHandlers(): LegacyCryptoMigrationHandlers & { olm: ISessionInfo[]; megolm: SessionExtended[] } {
+    const handlers = {
+        olm: [] as ISessionInfo[],
+        megolm: [] as SessionExtended[],
+        migrateBaseData: jest.fn(async (): Promise<void> => {}),
+        migrateOlmSessions: async (sessions: ISessionInfo[]): Promise<void> => {
+            handlers.olm.push(...sessions);
+        },
+        migrateInboundGroupSessions: async (sessions: SessionExtended[]): Promise<void> => {
+            handlers.megolm.push(...sessions);
+        },
+    };
+    return handlers;
+}
+
+describe("migrateLegacyCryptoStore", () => {
+    let storage: MockAsyncStore;
+    let store: AsyncCryptoStore;
+
+    beforeEach(async () => {
+        storage = new MockAsyncStore();
+        store = new AsyncCryptoStore(storage);
+        await store.startup();
+    });
+
+    it("migrates every session in batches and deletes them", async () => {
+        await populate(store, 5, 3);
+        const handlers = recordingHandlers();
+        const progress: LegacyCryptoMigrationProgress[] = [];
+
+        await migrateLegacyCryptoStore(store, handlers, { batchSize: 2, onProgress: (p) => progress.push(p) });
+
+        expect(handlers.migrateBaseData).toHaveBeenCalledTimes(1);
+        expect(handlers.olm.map((s) => s.sessionId)).toEqual(["olm0", "olm1", "olm2", "olm3", "olm4"]);
+        expect(handlers.megolm.map((s) => s.sessionId)).toEqual(["megolm0", "megolm1", "megolm2"]);
+        expect(await store.getMigrationState()).toEqual(MigrationState.MEGOLM_SESSIONS_MIGRATED);
+        expect(await store.getMigrationPosition()).toBeNull();
+        expect(await store.countEndToEndInboundGroupSessions()).toEqual(0);
+        expect(await store.getEndToEndSessionsBatch()).toBeNull();
+
+        expect(progress).toEqual([
+            { phase: "base_data", done: 0, total: 1 },
+            { phase: "base_data", done: 1, total: 1 },
+            { phase: "olm_sessions", done: 0, total: 5 },
+            { phase: "olm_sessions", done: 2, total: 5 },
+            { phase: "olm_sessions", done: 4, total: 5 },
+            { phase: "olm_sessions", done: 5, total: 5 },
+            { phase: "inbound_group_sessions", done: 0, total: 3 },
+            { phase: "inbound_group_sessions", done: 2, total: 3 },
+            { phase: "inbound_group_sessions", done: 3, total: 3 },
+        ]);
+    });
+
+    it("resumes an interrupted migration where it stopped", async () => {
+        await populate(store, 5, 0);
+        const handlers = recordingHandlers();
+        const migrateOlmSessions = handlers.migrateOlmSessions;
+        let calls = 0;
+        handlers.migrateOlmSessions = async (sessions): Promise<void> => {
+            if (++calls === 2) {
+                throw new Error("killed");
+            }
+            await migrateOlmSessions(sessions);
+        };
+
+        await expect(migrateLegacyCryptoStore(store, handlers, { batchSize: 2 })).rejects.toThrow("killed");
+        expect(await store.getMigrationState()).toEqual(MigrationState.INITIAL_DATA_MIGRATED);
+        expect(await store.getMigrationPosition()).toEqual({
+            phase: "olm_sessions",
+            cursor: "devicekey/olm1",
+            done: 2,
+            skipped: 0,
+        });
+
+        // A new store over the same storage, as after restarting the app.
+        store = new AsyncCryptoStore(storage);
+        await store.startup();
+        const progress: LegacyCryptoMigrationProgress[] = [];
+        await migrateLegacyCryptoStore(store, handlers, { batchSize: 2, onProgress: (p) => progress.push(p) });
+
+        expect(handlers.migrateBaseData).toHaveBeenCalledTimes(1);
+        expect(handlers.olm.map((s) => s.sessionId)).toEqual(["olm0", "olm1", "olm2", "olm3", "olm4"]);
+        expect(progress[0]).toEqual({ phase: "olm_sessions", done: 2, total: 5 });
+        expect(await store.getMigrationState()).toEqual(MigrationState.MEGOLM_SESSIONS_MIGRATED);
+    });
+
+    it("reports corrupt sessions and leaves them in the store", async () => {
+        await populate(store, 2, 2);
+        await storage.setItem("crypto.sessions/devicekey/olm1", "{not json");
+        await storage.setItem("crypto.inboundgroupsessions/senderkey/megolm0", JSON.stringify({ session: {} }));
+        store = new AsyncCryptoStore(storage);
+        await store.startup();
+
+        const handlers = recordingHandlers();
+        const unmigratable: UnmigratableRecord[] = [];
+        const progress: LegacyCryptoMigrationProgress[] = [];
+        await migrateLegacyCryptoStore(store, handlers, {
+            onUnmigratable: (r) => unmigratable.push(r),
+            onProgress: (p) => progress.push(p),
+        });
+
+        expect(handlers.olm.map((s) => s.sessionId)).toEqual(["olm0"]);
+        expect(handlers.megolm.map((s) => s.sessionId)).toEqual(["megolm1"]);
+        expect(unmigratable).toEqual([
+            { phase: "olm_sessions", key: "devicekey/olm1", reason: expect.any(String) },
+            {
+                phase: "inbound_group_sessions",
+                key: "senderkey/megolm0",
+                reason: "The session has no pickle or room ID",
+            },
+        ]);
+        expect(progress).toContainEqual({ phase: "olm_sessions", done: 2, total: 2 });
+        expect(await storage.getItem("crypto.sessions/devicekey/olm1")).toEqual("{not json");
+        expect(await storage.getItem("crypto.inboundgroupsessions/senderkey/megolm0")).not.toBeNull();
+        expect(await store.getMigrationState()).toEqual(MigrationState.MEGOLM_SESSIONS_MIGRATED);
+    });
+
+    it("does nothing once the sessions have been migrated", async () => {
+        await populate(store, 1, 1);
+        await store.setMigrationState(MigrationState.MEGOLM_SESSIONS_MIGRATED);
+        const handlers = recordingHandlers();
+
+        await migrateLegacyCryptoStore(store, handlers);
+
+        expect(handlers.migrateBaseData).not.toHaveBeenCalled();
+        expect(handlers.olm).toEqual([]);
+        expect(handlers.megolm).toEqual([]);
+    });
+
+    it("fails if the Olm sessions can't be counted", async () => {
+        await populate(store, 1, 0);
+        jest.spyOn(store, "countEndToEndSessions").mockImplementation(() => {
+            throw new Error("read failed");
+        });
+        const handlers = recordingHandlers();
+
+        await expect(migrateLegacyCryptoStore(store, handlers)).rejects.toThrow("read failed");
+        expect(handlers.olm).toEqual([]);
+    });
+});
+
+describe("AsyncCryptoStore session batches", () => {
+    it("skips unreadable sessions and deletes them with the batch", async () => {
+        const storage = new MockAsyncStore();
+        let store = new AsyncCryptoStore(storage);
+        await store.startup();
+        await populate(store, 3, 0);
+        await storage.setItem("crypto.sessions/devicekey/olm1", "{not json");
+        store = new AsyncCryptoStore(storage);
+        await store.startup();
+        const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+        const batch = await store.getEndToEndSessionsBatch();
+        expect(batch!.map((s) => s.sessionId)).toEqual(["olm0", "olm2"]);
+        expect(error).toHaveBeenCalledTimes(1);
+        await store.deleteEndToEndSessionsBatch(batch!);
+
+        expect(await store.getEndToEndSessionsBatch()).toBeNull();
+        expect(await storage.getItem("crypto.sessions/devicekey/olm1")).toBeNull();
+        error.mockRestore();
+    });
+});
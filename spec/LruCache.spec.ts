@@ -0,0 +1,59 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import LruCache from "../src/LruCache";
+
+describe("LruCache", () => {
+    test("drops the least recently used values once full", () => {
+        const cache = new LruCache(12);
+        cache.set("a", "111");
+        cache.set("b", "222");
+        cache.set("c", "333");
+        cache.get("a");
+        cache.set("d", "444");
+
+        expect(cache.get("a")).toEqual("111");
+        expect(cache.get("b")).toBeUndefined();
+        expect(cache.getStats()).toEqual({ hits: 2, misses: 1, evictions: 1, entries: 3, size: 12 });
+    });
+
+    test("remembers keys without values", () => {
+        const cache = new LruCache(10);
+        cache.set("a", null);
+
+        expect(cache.get("a")).toBeNull();
+    });
+
+    test("doesn't cache values larger than itself", () => {
+        const cache = new LruCache(4);
+        cache.set("a", "1");
+        cache.set("b", "22222");
+
+        expect(cache.get("b")).toBeUndefined();
+        expect(cache.get("a")).toEqual("1");
+    });
+
+    test("only fills values read before any change", () => {
+        const cache = new LruCache(100);
+        const version = cache.version;
+        cache.set("a", "new");
+        cache.fill("a", "old", version);
+        cache.fill("b", "read", cache.version);
+
+        expect(cache.get("a")).toEqual("new");
+        expect(cache.get("b")).toEqual("read");
+    });
+});
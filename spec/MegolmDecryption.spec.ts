@@ -0,0 +1,141 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { InboundGroupSessionData } from "matrix-js-sdk/lib/crypto/OlmDevice";
+
+import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import { decryptMegolmEvent, OlmInboundGroupSessionLike, OlmLike } from "../src/MegolmDecryption";
+import MockAsyncStore from "./MockAsyncStore";
+
+// Stands in for an Olm.InboundGroupSession: a "ciphertext" is the pickle of its session, a colon and the plaintext.
+class FakeInboundGroupSession implements OlmInboundGroupSessionLike {
+    public static freed = 0;
+    private pickle: string | null = null;
+
+    public unpickle(key: string, pickle: string): void {
+        if (key !== "DEFAULT_KEY") {
+            throw new Error("OLM.BAD_ACCOUNT_KEY");
+        }
+        this.pickle = pickle;
+    }
+
+    public decrypt(message: string): { plaintext: string; message_index: number } {
+        const separator = message.indexOf(":");
+        if (message.slice(0, separator) !== this.pickle) {
+            throw new Error("OLM.BAD_MESSAGE_MAC");
+        }
+        return { plaintext: message.slice(separator + 1), message_index: 7 };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/naming-convention -- Olm's name
+    public first_known_index(): number {
+        return 0;
+    }
+
+    public free(): void {
+        FakeInboundGroupSession.freed++;
+    }
+}
+
+const olm: OlmLike = { InboundGroupSession: FakeInboundGroupSession };
+
+describe("decryptMegolmEvent", () => {
+    const roomId = "!room:example.org";
+    let storage: MockAsyncStore;
+    let store: AsyncCryptoStore;
+
+    function encryptedEvent(
+        payload: object,
+        sessionId = "megolm1",
+    ): { room_id: string; content: Record<string, string> } {
+        return {
+            room_id: roomId,
+            content: {
+                algorithm: "m.megolm.v1.aes-sha2",
+                sender_key: "senderkey",
+                session_id: sessionId,
+                ciphertext: "pickle1:" + JSON.stringify(payload),
+            },
+        };
+    }
+
+    beforeEach(async () => {
+        storage = new MockAsyncStore();
+        const writable = new AsyncCryptoStore(storage);
+        await writable.startup();
+        const sessionData: InboundGroupSessionData = {
+            room_id: roomId,
+            session: "pickle1",
+            keysClaimed: { ed25519: "signingkey" },
+            forwardingCurve25519KeyChain: [],
+        };
+        await writable.doTxn("readwrite", [], (txn) => {
+            writable.storeEndToEndInboundGroupSession("senderkey", "megolm1", sessionData, txn);
+            writable.storeEndToEndInboundGroupSessionWithheld(
+                "senderkey",
+                "megolm2",
+                { room_id: roomId, code: "m.unverified", reason: "Device not verified" },
+                txn,
+            );
+        });
+        store = new AsyncCryptoStore(storage, { readOnly: true });
+        FakeInboundGroupSession.freed = 0;
+    });
+
+    test("decrypts an event with a stored session", async () => {
+        const payload = { type: "m.room.message", content: { body: "hello" }, room_id: roomId };
+
+        expect(await decryptMegolmEvent(store, encryptedEvent(payload), { olm })).toEqual({
+            payload,
+            senderKey: "senderkey",
+            messageIndex: 7,
+            keysClaimed: { ed25519: "signingkey" },
+            forwardingCurve25519KeyChain: [],
+            untrusted: false,
+        });
+        expect(FakeInboundGroupSession.freed).toEqual(1);
+    });
+
+    test("rejects events of unknown or withheld sessions", async () => {
+        await expect(decryptMegolmEvent(store, encryptedEvent({}, "megolm3"), { olm })).rejects.toThrow(
+            "Unknown megolm session senderkey|megolm3",
+        );
+        await expect(decryptMegolmEvent(store, encryptedEvent({}, "megolm2"), { olm })).rejects.toThrow(
+            "Unknown megolm session senderkey|megolm2: Device not verified",
+        );
+    });
+
+    test("rejects events that weren't encrypted for the room they were sent to", async () => {
+        const event = encryptedEvent({ type: "m.room.message", content: {}, room_id: "!other:example.org" });
+
+        await expect(decryptMegolmEvent(store, event, { olm })).rejects.toThrow(
+            "The event was encrypted for the room !other:example.org",
+        );
+        await expect(decryptMegolmEvent(store, { ...event, room_id: "!other:example.org" }, { olm })).rejects.toThrow(
+            "belongs to another room",
+        );
+        expect(FakeInboundGroupSession.freed).toEqual(1);
+    });
+
+    test("rejects events with other algorithms", async () => {
+        const event = encryptedEvent({});
+        event.content.algorithm = "m.olm.v1.curve25519-aes-sha2";
+
+        await expect(decryptMegolmEvent(store, event, { olm })).rejects.toThrow(
+            "Can't decrypt an event encrypted with m.olm.v1.curve25519-aes-sha2",
+        );
+    });
+});
@@ -0,0 +1,42 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import MockAsyncStore from "./MockAsyncStore";
+
+/**
+ * A MockAsyncStore that also implements the optional batch operations.
+ */
+export default class MockBatchAsyncStore extends MockAsyncStore {
+    public async multiGet(keys: string[]): Promise<[string, string | null][]> {
+        const result: [string, string | null][] = [];
+        for (const key of keys) {
+            result.push([key, await this.getItem(key)]);
+        }
+        return result;
+    }
+
+    public async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+        for (const [key, value] of keyValuePairs) {
+            await this.setItem(key, value);
+        }
+    }
+
+    public async multiRemove(keys: string[]): Promise<void> {
+        for (const key of keys) {
+            await this.removeItem(key);
+        }
+    }
+}
@@ -0,0 +1,40 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { MMKVLike } from "../src/MmkvAsyncStore";
+
+/**
+ * An in-memory stand-in for a react-native-mmkv instance.
+ */
+export default class MockMMKV implements MMKVLike {
+    private data = new Map<string, string>();
+
+    public getAllKeys(): string[] {
+        return [...this.data.keys()];
+    }
+
+    public getString(key: string): string | undefined {
+        return this.data.get(key);
+    }
+
+    public set(key: string, value: string): void {
+        this.data.set(key, value);
+    }
+
+    public delete(key: string): void {
+        this.data.delete(key);
+    }
+}
@@ -0,0 +1,78 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { SQLiteDatabaseLike } from "../src/SQLiteAsyncStore";
+
+type Row = { key: string; value: string };
+
+/**
+ * An in-memory stand-in for an SQLite database, which understands just the statements that SQLiteAsyncStore runs.
+ */
+export default class MockSQLiteDatabase implements SQLiteDatabaseLike {
+    public readonly tables = new Map<string, Map<string, string>>();
+
+    public async executeSql(
+        statement: string,
+        params: string[] = [],
+    ): Promise<[{ rows: { length: number; item(index: number): Row } }]> {
+        const rows = this.run(statement, params);
+        return [{ rows: { length: rows.length, item: (index) => rows[index] } }];
+    }
+
+    private table(name: string): Map<string, string> {
+        const table = this.tables.get(name);
+        if (!table) {
+            throw new Error(`no such table: ${name}`);
+        }
+        return table;
+    }
+
+    private run(statement: string, params: string[]): Row[] {
+        let match: RegExpMatchArray | null;
+        if ((match = statement.match(/^CREATE TABLE IF NOT EXISTS (\w+) /))) {
+            if (!this.tables.has(match[1])) {
+                this.tables.set(match[1], new Map());
+            }
+            return [];
+        }
+        if ((match = statement.match(/^SELECT key FROM (\w+)$/))) {
+            return [...this.table(match[1]).keys()].map((key) => ({ key, value: "" }));
+        }
+        if ((match = statement.match(/^SELECT key, value FROM (\w+) WHERE key (?:= \?|IN \(.*\))$/))) {
+            const table = this.table(match[1]);
+            return params.filter((key) => table.has(key)).map((key) => ({ key, value: table.get(key)! }));
+        }
+        if ((match = statement.match(/^SELECT key, length\(value\) AS value FROM (\w+) WHERE key IN \(.*\)$/))) {
+            const table = this.table(match[1]);
+            return params.filter((key) => table.has(key)).map((key) => ({ key, value: `${table.get(key)!.length}` }));
+        }
+        if ((match = statement.match(/^INSERT OR REPLACE INTO (\w+) \(key, value\) VALUES /))) {
+            const table = this.table(match[1]);
+            for (let i = 0; i < params.length; i += 2) {
+                table.set(params[i], params[i + 1]);
+            }
+            return [];
+        }
+        if ((match = statement.match(/^DELETE FROM (\w+) WHERE key /))) {
+            const table = this.table(match[1]);
+            for (const key of params) {
+                table.delete(key);
+            }
+            return [];
+        }
+        throw new Error(`Unexpected statement: ${statement}`);
+    }
+}
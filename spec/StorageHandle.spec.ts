@@ -0,0 +1,153 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { MemoryCryptoStore } from "matrix-js-sdk/lib/crypto/store/memory-crypto-store";
+import { logger } from "matrix-js-sdk/lib/logger";
+import { createClient } from "matrix-js-sdk/lib/matrix";
+import { MemoryStore } from "matrix-js-sdk/lib/store/memory";
+
+import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import AsyncSyncStore from "../src/AsyncSyncStore";
+import { configureStorage, getStorage } from "../src/StorageHandle";
+import MockAsyncStore from "./MockAsyncStore";
+
+// The IndexedDB shim's browser build needs a window, and none of these tests use it.
+jest.mock("indexeddbshim/dist/indexeddbshim-noninvasive", () => jest.fn());
+
+// The crypto store matrix-js-sdk's createClient picks when it isn't given one.
+function createClientCryptoStore(): unknown {
+    return (createClient({ baseUrl: "https://example.org" }) as unknown as { cryptoStore: unknown }).cryptoStore;
+}
+
+describe("StorageHandle", () => {
+    afterEach(() => {
+        getStorage()?.teardown();
+    });
+
+    test("defaults to AsyncStorage, and only loads it once a client needs it", () => {
+        const loadAsyncStorage = jest.fn(() => ({ default: new MockAsyncStore() }));
+        jest.isolateModules(() => {
+            jest.doMock("@react-native-community/async-storage", loadAsyncStorage);
+            /* eslint-disable @typescript-eslint/no-var-requires */
+            const { createClient } = require("../src");
+            const { default: IsolatedAsyncCryptoStore } = require("../src/AsyncCryptoStore");
+            /* eslint-enable @typescript-eslint/no-var-requires */
+            expect(loadAsyncStorage).not.toHaveBeenCalled();
+
+            const client = createClient({
+                baseUrl: "https://example.org",
+                userId: "@alice:example.org",
+                deviceId: "A",
+            });
+
+            expect(client.cryptoStore).toBeInstanceOf(IsolatedAsyncCryptoStore);
+            expect(loadAsyncStorage).toHaveBeenCalled();
+        });
+    });
+
+    test("gives clients created by matrix-js-sdk the default storage", () => {
+        const loadAsyncStorage = jest.fn(() => ({ default: new MockAsyncStore() }));
+        jest.isolateModules(() => {
+            jest.doMock("@react-native-community/async-storage", loadAsyncStorage);
+            /* eslint-disable @typescript-eslint/no-var-requires */
+            const sdk = require("../src");
+            const { default: IsolatedAsyncCryptoStore } = require("../src/AsyncCryptoStore");
+            /* eslint-enable @typescript-eslint/no-var-requires */
+            expect(loadAsyncStorage).not.toHaveBeenCalled();
+
+            const client = sdk.default.createClient({ baseUrl: "https://example.org" });
+
+            expect(client.cryptoStore).toBeInstanceOf(IsolatedAsyncCryptoStore);
+        });
+    });
+
+    test("creates stores on the configured backend", async () => {
+        const store = new MockAsyncStore();
+        const handle = configureStorage({ backend: { type: "async-storage", store, prefix: "app1" } });
+
+        const cryptoStore = handle.createCryptoStore("alice");
+        expect(cryptoStore).toBeInstanceOf(AsyncCryptoStore);
+        await cryptoStore.startup();
+
+        expect(await AsyncCryptoStore.listNamespaces(store, "app1")).toEqual(["alice"]);
+    });
+
+    test("creates sync stores on the configured backend", () => {
+        const handle = configureStorage({ backend: { type: "async-storage", store: new MockAsyncStore() } });
+        expect(handle.createSyncStore("alice")).toBeInstanceOf(AsyncSyncStore);
+
+        handle.reconfigure({ backend: { type: "memory" } });
+        expect(handle.createSyncStore()).toBeInstanceOf(MemoryStore);
+    });
+
+    test("registers the store factory with matrix-js-sdk", () => {
+        configureStorage({ backend: { type: "async-storage", store: new MockAsyncStore() } });
+
+        expect(createClientCryptoStore()).toBeInstanceOf(AsyncCryptoStore);
+    });
+
+    test("can be reconfigured", () => {
+        const handle = configureStorage({ backend: { type: "async-storage", store: new MockAsyncStore() } });
+
+        handle.reconfigure({ backend: { type: "memory" } });
+
+        expect(handle.createCryptoStore()).toBeInstanceOf(MemoryCryptoStore);
+        expect(createClientCryptoStore()).toBeInstanceOf(MemoryCryptoStore);
+    });
+
+    test("reports the stores it creates to the logger", () => {
+        const info = jest.fn();
+        const handle = configureStorage({ backend: { type: "memory" }, logger: { ...logger, info } });
+
+        handle.createCryptoStore();
+
+        expect(info).toHaveBeenCalledWith("Creating MemoryCryptoStore.");
+    });
+
+    test("passes the logger to the sync stores it creates", async () => {
+        const storage = new MockAsyncStore();
+        const writer = new AsyncSyncStore(storage, { maxValueLength: 64 });
+        await writer.setSyncData({ next_batch: "s1", rooms: {} } as never);
+        await writer.save(true);
+        await storage.removeItem("sync.saved_sync/0/1");
+        const warn = jest.fn();
+        const handle = configureStorage({
+            backend: { type: "async-storage", store: storage },
+            logger: { ...logger, warn },
+        });
+
+        expect(await handle.createSyncStore().getSavedSync()).toBeNull();
+        expect(warn).toHaveBeenCalledWith("AsyncSyncStore: the saved sync is incomplete, discarding it");
+    });
+
+    test("can be torn down", () => {
+        const handle = configureStorage({ backend: { type: "async-storage", store: new MockAsyncStore() } });
+
+        handle.teardown();
+
+        expect(getStorage()).toBeNull();
+        expect(() => handle.createCryptoStore()).toThrow("torn down");
+        expect(createClientCryptoStore()).toBeInstanceOf(MemoryCryptoStore);
+    });
+
+    test("configuring storage again tears down the previous handle", () => {
+        const first = configureStorage({ backend: { type: "memory" } });
+        const second = configureStorage({ backend: { type: "memory" } });
+
+        expect(getStorage()).toBe(second);
+        expect(() => first.createCryptoStore()).toThrow("torn down");
+    });
+});
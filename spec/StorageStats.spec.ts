@@ -0,0 +1,127 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { CryptoStore } from "matrix-js-sdk/lib/crypto/store/base";
+import { IndexedDBCryptoStore } from "matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store";
+import { IDBFactory } from "fake-indexeddb";
+
+import AsyncCryptoStore from "../src/AsyncCryptoStore";
+import { getIndexedDBStorageStats } from "../src";
+import { CryptoStoreStats, readIndexedDBStorageStats } from "../src/StorageStats";
+import MockAsyncStore from "./MockAsyncStore";
+
+// Passes the IndexedDB factory that the tests give as the backend straight through.
+jest.mock("indexeddbshim/dist/indexeddbshim-noninvasive", () =>
+    jest.fn((idb: { indexedDB?: unknown }, opts: { win: unknown }) => (idb.indexedDB = opts.win)),
+);
+
+const sessionData = { room_id: "!room:example.org", session: "pickled-megolm", forwardingCurve25519KeyChain: [] };
+
+const STORE_NAMES = [
+    IndexedDBCryptoStore.STORE_ACCOUNT,
+    IndexedDBCryptoStore.STORE_SESSIONS,
+    IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+    IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS_WITHHELD,
+    IndexedDBCryptoStore.STORE_ROOMS,
+];
+
+async function populate(store: CryptoStore): Promise<void> {
+    await store.startup();
+    await store.doTxn("readwrite", STORE_NAMES, (txn) => {
+        store.storeAccount(txn, "pickled-account");
+        store.storeEndToEndSession("devicekey1", "olm1", { deviceKey: "devicekey1", sessionId: "olm1" }, txn);
+        store.storeEndToEndSession("devicekey1", "olm2", { deviceKey: "devicekey1", sessionId: "olm2" }, txn);
+        store.storeEndToEndSession("devicekey2", "olm3", { deviceKey: "devicekey2", sessionId: "olm3" }, txn);
+        store.storeEndToEndInboundGroupSession("sender", "megolm1", sessionData, txn);
+        store.storeEndToEndInboundGroupSession("sender", "megolm2", sessionData, txn);
+        store.storeEndToEndInboundGroupSessionWithheld(
+            "sender",
+            "megolm3",
+            { room_id: "!room:example.org", code: "m.unverified", reason: "not verified" },
+            txn,
+        );
+        store.storeEndToEndRoom("!room:example.org", { algorithm: "m.megolm.v1.aes-sha2" }, txn);
+    });
+    await store.storeEndToEndSessionProblem("devicekey1", "no_olm", false);
+    await store.storeEndToEndSessionProblem("devicekey1", "wedged", false);
+    await store.storeEndToEndSessionProblem("devicekey2", "no_olm", false);
+    await store.markSessionsNeedingBackup([{ senderKey: "sender", sessionId: "megolm2" }]);
+    await store.getOrAddOutgoingRoomKeyRequest({
+        requestId: "req1",
+        recipients: [{ userId: "@alice:example.org", deviceId: "DEVICE" }],
+        requestBody: {
+            algorithm: "m.megolm.v1.aes-sha2",
+            room_id: "!room:example.org",
+            sender_key: "sender",
+            session_id: "megolm3",
+        },
+        state: 1,
+    });
+}
+
+/**
+ * The counts of the statistics, leaving out those of the store's own bookkeeping, which differs between stores.
+ */
+function counts(stats: CryptoStoreStats): Record<string, unknown> {
+    return {
+        olmSessions: stats.olmSessions.count,
+        olmSessionsByDevice: Object.keys(stats.olmSessionsByDevice).map((k) => [k, stats.olmSessionsByDevice[k].count]),
+        sessionProblems: stats.sessionProblems.count,
+        inboundGroupSessions: stats.inboundGroupSessions.count,
+        inboundGroupSessionsWithheld: stats.inboundGroupSessionsWithheld.count,
+        outgoingKeyRequests: stats.outgoingKeyRequests.count,
+        outgoingKeyRequestsByState: stats.outgoingKeyRequestsByState,
+        rooms: stats.rooms.count,
+        backupQueue: stats.backupQueue.count,
+    };
+}
+
+describe("readIndexedDBStorageStats", () => {
+    test("counts the same records as AsyncCryptoStore", async () => {
+        const indexedDB = new IDBFactory();
+        const indexedDBStore = new IndexedDBCryptoStore(indexedDB, "crypto");
+        await populate(indexedDBStore);
+        const asyncCryptoStore = new AsyncCryptoStore(new MockAsyncStore());
+        await populate(asyncCryptoStore);
+
+        const stats = await readIndexedDBStorageStats(indexedDB, "crypto");
+
+        expect(counts(stats)).toEqual(counts(await asyncCryptoStore.getStorageStats()));
+        expect(stats.sessionProblems.count).toEqual(2);
+        expect(stats.inboundGroupSessions.bytes).toBeGreaterThan(2 * JSON.stringify(sessionData).length);
+        // The account.
+        expect(stats.other.count).toBeGreaterThanOrEqual(1);
+    });
+
+    test("reports nothing for a database that doesn't exist, without creating it", async () => {
+        const indexedDB = new IDBFactory();
+
+        expect((await readIndexedDBStorageStats(indexedDB, "crypto")).total).toEqual({ count: 0, bytes: 0 });
+        expect(await IndexedDBCryptoStore.exists(indexedDB, "crypto")).toBe(false);
+    });
+
+    test("is available for the indexeddb backend", async () => {
+        const indexedDB = new IDBFactory();
+        await populate(new IndexedDBCryptoStore(indexedDB, "other"));
+
+        const stats = await getIndexedDBStorageStats(indexedDB as unknown as WindowDatabase, "other");
+
+        expect(stats.olmSessions.count).toEqual(3);
+        expect(await getIndexedDBStorageStats(indexedDB as unknown as WindowDatabase)).toEqual(
+            expect.objectContaining({ total: { count: 0, bytes: 0 } }),
+        );
+    });
+});
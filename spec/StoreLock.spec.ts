@@ -0,0 +1,151 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Logger } from "matrix-js-sdk/lib/logger";
+
+import StoreLock, { StoreLockOpts } from "../src/StoreLock";
+import MockAsyncStore from "./MockAsyncStore";
+
+describe("StoreLock", () => {
+    let storage: MockAsyncStore;
+    let logger: Logger;
+
+    beforeEach(() => {
+        storage = new MockAsyncStore();
+        logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+    });
+
+    function createLock(holder: string, opts: StoreLockOpts = {}, onTakeOver?: () => Promise<void>): StoreLock {
+        return new StoreLock(
+            storage,
+            "crypto.lock",
+            { holder, pollInterval: 5, settleDelay: 0, ...opts },
+            logger,
+            onTakeOver,
+        );
+    }
+
+    function delay(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    test("reports who holds it", async () => {
+        const lock = createLock("app");
+        expect(await lock.getHolder()).toBeNull();
+
+        await lock.acquire();
+        expect(await lock.getHolder()).toEqual({ holder: "app", expires: expect.any(Number) });
+
+        await lock.release();
+        expect(await lock.getHolder()).toBeNull();
+    });
+
+    test("is held until every acquire has been released", async () => {
+        const lock = createLock("app");
+        await lock.acquire();
+        await lock.acquire();
+
+        await lock.release();
+        expect((await lock.getHolder())?.holder).toEqual("app");
+
+        await lock.release();
+        expect(await lock.getHolder()).toBeNull();
+    });
+
+    test("waits for another context to release it", async () => {
+        const app = createLock("app");
+        const notifications = createLock("notifications");
+        await app.acquire();
+
+        let acquired = false;
+        const promise = notifications.acquire().then(() => (acquired = true));
+        await delay(20);
+        expect(acquired).toBe(false);
+
+        await app.release();
+        await promise;
+        expect((await notifications.getHolder())?.holder).toEqual("notifications");
+        await notifications.release();
+    });
+
+    test("fails after the timeout if another context still holds it", async () => {
+        const app = createLock("app");
+        await app.acquire();
+
+        await expect(createLock("notifications", { timeout: 20 }).acquire()).rejects.toThrow(
+            "Timed out waiting for the lock crypto.lock, held by app",
+        );
+        expect((await app.getHolder())?.holder).toEqual("app");
+        await app.release();
+    });
+
+    test("takes the lock of a context whose lease has expired", async () => {
+        // A context that was killed while holding the lock.
+        await storage.setItem(
+            "crypto.lock",
+            JSON.stringify({ holder: "headless", token: "abc", expires: Date.now() - 1 }),
+        );
+
+        const app = createLock("app", { timeout: 20 });
+        await app.acquire();
+
+        expect((await app.getHolder())?.holder).toEqual("app");
+        await app.release();
+    });
+
+    test("steals the lock after the timeout if configured to", async () => {
+        const app = createLock("app");
+        await app.acquire();
+
+        const notifications = createLock("notifications", { timeout: 20, steal: "after-timeout" });
+        await notifications.acquire();
+
+        expect((await app.getHolder())?.holder).toEqual("notifications");
+        expect(logger.warn).toHaveBeenCalledWith("Stealing the lock crypto.lock from app");
+        await notifications.release();
+        await app.release();
+    });
+
+    test("calls onTakeOver only when another context held the lock last", async () => {
+        const onTakeOver = jest.fn().mockResolvedValue(undefined);
+        const app = createLock("app", {}, onTakeOver);
+        await app.acquire();
+        await app.release();
+        await app.acquire();
+        await app.release();
+        expect(onTakeOver).not.toHaveBeenCalled();
+
+        const notifications = createLock("notifications");
+        await notifications.acquire();
+        await notifications.release();
+        await app.acquire();
+        await app.release();
+        expect(onTakeOver).toHaveBeenCalledTimes(1);
+        expect(onTakeOver).toHaveBeenCalledWith("notifications");
+    });
+
+    test("renews its lease while held", async () => {
+        const app = createLock("app", { leaseDuration: 60 });
+        await app.acquire();
+
+        await delay(120);
+
+        const holder = await app.getHolder();
+        expect(holder?.holder).toEqual("app");
+        expect(holder!.expires).toBeGreaterThan(Date.now());
+        await app.release();
+    });
+});
@@ -0,0 +1,95 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import TransactionScheduler from "../src/TransactionScheduler";
+
+describe("TransactionScheduler", () => {
+    let scheduler = new TransactionScheduler();
+
+    beforeEach(() => {
+        scheduler = new TransactionScheduler();
+    });
+
+    async function isGranted(promise: Promise<unknown>): Promise<boolean> {
+        const pending = {};
+        return (await Promise.race([promise, Promise.resolve(pending)])) !== pending;
+    }
+
+    test("runs overlapping read-only transactions in parallel", async () => {
+        const first = scheduler.acquire("readonly", ["account"]);
+        const second = scheduler.acquire("readonly", ["account", "sessions"]);
+
+        expect(await isGranted(first)).toBe(true);
+        expect(await isGranted(second)).toBe(true);
+    });
+
+    test("serializes read-write transactions on the same store", async () => {
+        const first = scheduler.acquire("readwrite", ["account"]);
+        const second = scheduler.acquire("readwrite", ["account"]);
+
+        expect(await isGranted(first)).toBe(true);
+        expect(await isGranted(second)).toBe(false);
+
+        (await first)();
+
+        expect(await isGranted(second)).toBe(true);
+    });
+
+    test("runs read-write transactions on different stores in parallel", async () => {
+        const first = scheduler.acquire("readwrite", ["account"]);
+        const second = scheduler.acquire("readwrite", ["sessions"]);
+
+        expect(await isGranted(first)).toBe(true);
+        expect(await isGranted(second)).toBe(true);
+    });
+
+    test("makes readers wait for an earlier writer", async () => {
+        const writer = scheduler.acquire("readwrite", ["sessions"]);
+        const reader = scheduler.acquire("readonly", ["sessions"]);
+
+        expect(await isGranted(reader)).toBe(false);
+
+        (await writer)();
+
+        expect(await isGranted(reader)).toBe(true);
+    });
+
+    test("does not let later readers overtake a waiting writer", async () => {
+        const firstReader = scheduler.acquire("readonly", ["sessions"]);
+        const writer = scheduler.acquire("readwrite", ["sessions"]);
+        const secondReader = scheduler.acquire("readonly", ["sessions"]);
+
+        expect(await isGranted(firstReader)).toBe(true);
+        expect(await isGranted(writer)).toBe(false);
+        expect(await isGranted(secondReader)).toBe(false);
+
+        (await firstReader)();
+
+        expect(await isGranted(writer)).toBe(true);
+        expect(await isGranted(secondReader)).toBe(false);
+    });
+
+    test("treats an empty scope as covering every store", async () => {
+        const first = scheduler.acquire("readwrite", []);
+        const second = scheduler.acquire("readonly", ["account"]);
+
+        expect(await isGranted(second)).toBe(false);
+
+        (await first)();
+
+        expect(await isGranted(second)).toBe(true);
+    });
+});
@@ -0,0 +1,135 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { CryptoStore } from "matrix-js-sdk/lib/crypto/store/base";
+import { MemoryCryptoStore } from "matrix-js-sdk/lib/crypto/store/memory-crypto-store";
+import { IndexedDBCryptoStore } from "matrix-js-sdk/lib/matrix";
+
+import { AsyncCryptoStore, migrateCryptoStoreFromIndexedDB, migrateCryptoStoreToIndexedDB } from "../src";
+import MockAsyncStore from "./MockAsyncStore";
+
+// The IndexedDB shim's browser build needs a window, and these tests don't use it.
+jest.mock("indexeddbshim/dist/indexeddbshim-noninvasive", () => jest.fn());
+
+// Keeps the "databases" in memory, by name, so that the tests can look into them.
+jest.mock("matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store", () => {
+    const actual = jest.requireActual("matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store");
+    const { MemoryCryptoStore } = jest.requireActual("matrix-js-sdk/lib/crypto/store/memory-crypto-store");
+
+    class FakeIndexedDBCryptoStore extends MemoryCryptoStore {
+        public static databases = new Map<string, FakeIndexedDBCryptoStore>();
+
+        public static exists(indexedDB: unknown, dbName: string): Promise<boolean> {
+            return Promise.resolve(FakeIndexedDBCryptoStore.databases.has(dbName));
+        }
+
+        public constructor(indexedDB: unknown, dbName: string) {
+            super();
+            const database = FakeIndexedDBCryptoStore.databases.get(dbName);
+            if (database) {
+                return database;
+            }
+            FakeIndexedDBCryptoStore.databases.set(dbName, this);
+        }
+    }
+    // The names of the object stores.
+    Object.assign(FakeIndexedDBCryptoStore, actual.IndexedDBCryptoStore);
+
+    return { ...actual, IndexedDBCryptoStore: FakeIndexedDBCryptoStore };
+});
+
+const databases = (IndexedDBCryptoStore as unknown as { databases: Map<string, MemoryCryptoStore> }).databases;
+const backend = {} as WindowDatabase;
+
+async function storeAccount(store: CryptoStore, account: string): Promise<void> {
+    await store.startup();
+    await store.doTxn("readwrite", [], (txn) => {
+        store.storeAccount(txn, account);
+        store.storeEndToEndSession(
+            "devicekey",
+            "olm1",
+            { deviceKey: "devicekey", sessionId: "olm1", session: `session of ${account}` },
+            txn,
+        );
+    });
+}
+
+async function getAccount(store: CryptoStore): Promise<string | null> {
+    let account: string | null = null;
+    await store.doTxn("readonly", [], (txn) => store.getAccount(txn, (a) => (account = a)));
+    return account;
+}
+
+describe("IndexedDB migrations", () => {
+    afterEach(() => {
+        databases.clear();
+    });
+
+    test("migrates the namespaced store of an account to IndexedDB", async () => {
+        const store = new MockAsyncStore();
+        const namespace = (deviceId: string): string =>
+            AsyncCryptoStore.namespaceForDevice("@alice:example.org", deviceId);
+        await storeAccount(new AsyncCryptoStore(store, { namespace: namespace("PHONE"), prefix: "app1" }), "phone");
+        await storeAccount(new AsyncCryptoStore(store, { namespace: namespace("TABLET"), prefix: "app1" }), "tablet");
+
+        // Without the account, there is nothing to migrate.
+        expect(await migrateCryptoStoreToIndexedDB(backend, { store, prefix: "app1" })).toBe(false);
+        expect(
+            await migrateCryptoStoreToIndexedDB(backend, {
+                userId: "@alice:example.org",
+                deviceId: "PHONE",
+                store,
+                prefix: "app1",
+                dbName: "alice-phone",
+            }),
+        ).toBe(true);
+
+        expect(await getAccount(databases.get("alice-phone")!)).toEqual("phone");
+        expect(await AsyncCryptoStore.listNamespaces(store, "app1")).toEqual([namespace("TABLET")]);
+    });
+
+    test("migrates the account kept in the secure store to IndexedDB", async () => {
+        const store = new MockAsyncStore();
+        const secureStore = new MockAsyncStore();
+        await storeAccount(new AsyncCryptoStore(store, { secureStore }), "phone");
+
+        await expect(migrateCryptoStoreToIndexedDB(backend, { store })).rejects.toThrow("no account");
+        expect(await migrateCryptoStoreToIndexedDB(backend, { store, secureStore })).toBe(true);
+
+        expect(await getAccount(databases.get("crypto")!)).toEqual("phone");
+        expect(await secureStore.getAllKeys()).toEqual([]);
+    });
+
+    test("migrates IndexedDB into the namespaced store of an account", async () => {
+        const store = new MockAsyncStore();
+        await storeAccount(new IndexedDBCryptoStore({} as IDBFactory, "alice-phone"), "phone");
+
+        expect(
+            await migrateCryptoStoreFromIndexedDB(backend, {
+                userId: "@alice:example.org",
+                deviceId: "PHONE",
+                store,
+                prefix: "app1",
+                dbName: "alice-phone",
+            }),
+        ).toBe(true);
+
+        const namespace = AsyncCryptoStore.namespaceForDevice("@alice:example.org", "PHONE");
+        const target = new AsyncCryptoStore(store, { namespace, prefix: "app1" });
+        await target.startup();
+        expect(await getAccount(target)).toEqual("phone");
+        expect(await migrateCryptoStoreFromIndexedDB(backend, { store, dbName: "bob-phone" })).toBe(false);
+    });
+});
@@ -19,6 +19,7 @@ import { CrossSigningKeyInfo } from "matrix-js-sdk/lib/crypto-api";
 import { IOlmDevice } from "matrix-js-sdk/lib/crypto/algorithms/megolm";
 import { DeviceInfo } from "matrix-js-sdk/lib/crypto/deviceinfo";
 import { InboundGroupSessionData } from "matrix-js-sdk/lib/crypto/OlmDevice";
+import { RoomKeyRequestState } from "matrix-js-sdk/lib/crypto/OutgoingRoomKeyRequestManager";
 import { IRoomEncryption } from "matrix-js-sdk/lib/crypto/RoomList";
 import {
     CryptoStore,
@@ -35,73 +36,84 @@ import {
     SESSION_BATCH_SIZE,
     SessionExtended,
 } from "matrix-js-sdk/lib/crypto/store/base";
-import { Logger } from "matrix-js-sdk/lib/logger";
-
-import AsyncCryptoStorage from "./AsyncStore";
-
-const E2E_PREFIX = "crypto.";
-
-const OUTGOING_KEY_REQUEST_PREFIX = E2E_PREFIX + "outgoingkeyrequest/";
-const SECRET_STORE_PRIVATE_KEY_PREFIX = E2E_PREFIX + "ssss_cache.";
-const END_TO_END_SESSION_PREFIX = E2E_PREFIX + "sessions/";
-const END_TO_END_SESSION_PROBLEMS_PREFIX = E2E_PREFIX + "session.problems/";
-const INBOUND_SESSION_PREFIX = E2E_PREFIX + "inboundgroupsessions/";
-const INBOUND_SESSION_WITHHELD_PREFIX = E2E_PREFIX + "inboundgroupsessions.withheld/";
-const ROOMS_PREFIX = E2E_PREFIX + "rooms/";
-const SHARED_HISTORY_INBOUND_SESSIONS_PREFIX = E2E_PREFIX + "sharedhistory.inboundgroupsessions/";
-const PARKED_SHARED_HISTORY_PREFIX = E2E_PREFIX + "sharedhistory.parked/";
-
-function prefixEndToEndSession(deviceKey: string): string {
-    return END_TO_END_SESSION_PREFIX + encodeURIComponent(deviceKey) + "/";
-}
-
-const KEY_END_TO_END_ACCOUNT = E2E_PREFIX + "account";
-const KEY_CROSS_SIGNING_KEYS = E2E_PREFIX + "cross_signing_keys";
-const KEY_NOTIFIED_ERROR_DEVICES = E2E_PREFIX + "notified_error_devices";
-const KEY_DEVICE_DATA = E2E_PREFIX + "device_data";
-const KEY_SESSIONS_NEEDING_BACKUP = E2E_PREFIX + "sessionsneedingbackup";
-const KEY_END_TO_END_MIGRATION_STATE = E2E_PREFIX + "migration";
-
-function keyOutgoingKeyRequest(requestId: string): string {
-    return OUTGOING_KEY_REQUEST_PREFIX + encodeURIComponent(requestId);
-}
-
-function keySecretStorePrivateKey<K extends keyof SecretStorePrivateKeys>(type: K): string {
-    return SECRET_STORE_PRIVATE_KEY_PREFIX + encodeURIComponent(`${type}`);
-}
-
-function keyEndToEndSession(deviceKey: string, sessionKey: string): string {
-    return prefixEndToEndSession(deviceKey) + encodeURIComponent(sessionKey);
-}
-
-function keyEndToEndSessionProblems(deviceKey: string): string {
-    return END_TO_END_SESSION_PROBLEMS_PREFIX + encodeURIComponent(deviceKey);
+import { IndexedDBCryptoStore } from "matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store";
+import { Logger, logger as defaultLogger } from "matrix-js-sdk/lib/logger";
+
+import AsyncCryptoStorage, { readFrom, removeFrom, sizesFrom, writeTo } from "./AsyncStore";
+import { ArchiveOpts, decryptArchive, encryptArchive } from "./CryptoStoreArchive";
+import KeyIndex from "./KeyIndex";
+import KeyLayout from "./KeyLayout";
+import LruCache, { LruCacheStats } from "./LruCache";
+import { getFirstKnownIndex, getOlm, OlmLike } from "./MegolmDecryption";
+import { addBytes, addRecord, CryptoStoreStats, emptyStorageStats, StorageCategoryStats } from "./StorageStats";
+import StoreLock, { LockHolder, StoreLockOpts } from "./StoreLock";
+import TransactionScheduler from "./TransactionScheduler";
+
+const DEFAULT_PREFIX = "crypto";
+
+// Android's AsyncStorage can't read rows larger than about 2 MB, so longer values are stored in chunks. The limit
+// is in UTF-16 code units, and leaves room for an EncryptedAsyncStore to grow values by a third.
+const DEFAULT_MAX_VALUE_LENGTH = 256 * 1024;
+// Starts the value stored under the key of a chunked value. It can't start a JSON value, so it can't be confused with
+// one.
+const CHUNKED_VALUE_MARKER = "\u0000chunked:";
+
+// Trace categories that IndexedDBCryptoStore has no store constant for, named after its object stores.
+const KEY_REQUESTS = "outgoingRoomKeyRequests";
+const SESSION_PROBLEMS = "session_problems";
+const NOTIFIED_ERROR_DEVICES = "notified_error_devices";
+
+interface ChunkedValueHeader {
+    generation: number;
+    count: number;
+    length: number;
 }
 
-function keyEndToEndInboundGroupSession(senderKey: string, sessionId: string): string {
-    return INBOUND_SESSION_PREFIX + encodeURIComponent(senderKey) + "/" + encodeURIComponent(sessionId);
+// The root of the keys of the store without a namespace.
+function unnamespacedRoot(prefix: string): string {
+    return prefix + ".";
 }
 
-function keyEndToEndInboundGroupSessionWithheld(senderKey: string, sessionId: string): string {
-    return INBOUND_SESSION_WITHHELD_PREFIX + encodeURIComponent(senderKey) + "/" + encodeURIComponent(sessionId);
+// Namespaced stores keep their keys under this + the URI-encoded namespace + "/". It doesn't start with the
+// unnamespaced root, so the unnamespaced store never sees them.
+function namespacesRoot(prefix: string): string {
+    return prefix + "/";
 }
 
-function keyEndToEndRoom(roomId: string): string {
-    return ROOMS_PREFIX + roomId;
+function requestIdFromIndexKey(indexKey: string): string {
+    return decodeURIComponent(indexKey.slice(indexKey.lastIndexOf("/") + 1));
 }
 
-function keySharedHistoryInboundGroupSessions(roomId: string): string {
-    return SHARED_HISTORY_INBOUND_SESSIONS_PREFIX + encodeURIComponent(roomId);
+// Whether `s` is already the output of encodeURIComponent.
+function isUriEncoded(s: string): boolean {
+    try {
+        return encodeURIComponent(decodeURIComponent(s)) === s;
+    } catch (e) {
+        return false;
+    }
 }
 
-function keyParkedSharedHistory(roomId: string): string {
-    return PARKED_SHARED_HISTORY_PREFIX + encodeURIComponent(roomId);
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
 }
 
+/**
+ * A transaction created by {@link AsyncCryptoStore#doTxn}.
+ *
+ * Read-write transactions buffer their writes and deletes until every operation has finished, and then commit them
+ * together. If any operation fails, the buffered changes are discarded and the transaction rejects.
+ */
 class Transaction {
     private numOps = 0;
     private error: unknown = null;
 
+    // Uncommitted changes, keyed by storage key. A null value marks a pending delete.
+    private writes = new Map<string, string | null>();
+
     private resolve: ((value: void | PromiseLike<void>) => void) | null = null;
     private reject: ((reason?: unknown) => void) | null = null;
 
@@ -110,6 +122,11 @@ class Transaction {
         this.reject = reject;
     });
 
+    public constructor(
+        public readonly mode: Mode,
+        private readonly commit: (writes: ReadonlyMap<string, string | null>) => Promise<void>,
+    ) {}
+
     public getPromise(): Promise<void> {
         return this.promise;
     }
@@ -125,6 +142,70 @@ class Transaction {
         }
     }
 
+    /**
+     * Like {@link Transaction#execute}, but returns the result of the operation to the caller, and rethrows its
+     * error (after recording it on the transaction).
+     */
+    public async run<T>(func: () => Promise<T>): Promise<T> {
+        this.onOperationStarted();
+        try {
+            return await func();
+        } catch (e) {
+            this.error = e;
+            throw e;
+        } finally {
+            this.onOperationEnded();
+        }
+    }
+
+    /**
+     * Marks the transaction as failed, so that none of its writes are committed.
+     */
+    public abort(error: unknown): void {
+        this.error = error;
+        this.onCallbackReturned();
+    }
+
+    /**
+     * Called once the callback passed to doTxn has returned. Completes the transaction if it started no operations.
+     */
+    public onCallbackReturned(): void {
+        if (this.numOps === 0) {
+            this.scheduleCompletion();
+        }
+    }
+
+    /**
+     * @returns the value this transaction has written under `key` but not yet committed: a string, null if the key
+     * has been deleted, or undefined if this transaction has not touched the key.
+     */
+    public getPendingItem(key: string): string | null | undefined {
+        return this.writes.get(key);
+    }
+
+    public getPendingWrites(): ReadonlyMap<string, string | null> {
+        return this.writes;
+    }
+
+    public setItem(key: string, value: string): void {
+        this.assertWritable();
+        this.writes.set(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this.assertWritable();
+        this.writes.set(key, null);
+    }
+
+    private assertWritable(): void {
+        if (this.mode !== "readwrite") {
+            throw new Error("Tried to write in a read-only transaction");
+        }
+        if (this.resolve === null) {
+            throw new Error("Tried to write in a completed transaction");
+        }
+    }
+
     private onOperationStarted(): void {
         if (this.resolve === null) {
             throw new Error("Tried to start a new operation on a completed transaction");
@@ -135,102 +216,1213 @@ class Transaction {
     private onOperationEnded(): void {
         this.numOps -= 1;
         if (this.numOps === 0) {
-            this.error ? this.reject?.(this.error) : this.resolve?.();
-            this.resolve = null;
-            this.reject = null;
+            this.scheduleCompletion();
+        }
+    }
+
+    private scheduleCompletion(): void {
+        // Like IndexedDB, only complete once control has returned to the event loop, so that a callback which awaits
+        // one operation can still queue another on the same transaction.
+        setTimeout(() => {
+            if (this.numOps === 0) {
+                this.complete();
+            }
+        }, 0);
+    }
+
+    private async complete(): Promise<void> {
+        const resolve = this.resolve;
+        const reject = this.reject;
+        if (resolve === null || reject === null) {
+            return;
+        }
+        this.resolve = null;
+        this.reject = null;
+
+        if (this.error) {
+            reject(this.error);
+            return;
+        }
+
+        try {
+            if (this.writes.size > 0) {
+                await this.commit(this.writes);
+            }
+            resolve();
+        } catch (e) {
+            reject(e);
         }
     }
 }
 
+/**
+ * A page of the sessions in a store, as returned by {@link AsyncCryptoStore#getEndToEndSessionsPage} and
+ * {@link AsyncCryptoStore#getEndToEndInboundGroupSessionsPage}.
+ */
+export interface SessionPage<T> {
+    sessions: T[];
+    // The sessions on the page that couldn't be read, e.g. because they aren't valid JSON. Their keys are in the same
+    // form as cursors: the device or sender key and the session ID, URI-encoded and separated by a slash.
+    unreadable: { key: string; error: Error }[];
+    // Pass this to get the next page, or null if this was the last one.
+    cursor: string | null;
+}
+
+/**
+ * How far a migration of the sessions out of the store has got, so that it can resume after the app is killed.
+ */
+export interface MigrationPosition {
+    phase: "olm_sessions" | "inbound_group_sessions";
+    // The cursor of the next page of the phase to migrate.
+    cursor: string | null;
+    // The number of sessions of the phase that have been migrated or skipped.
+    done: number;
+    // The number of sessions of the phase that couldn't be migrated, and were left in the store.
+    skipped: number;
+}
+
+/**
+ * What {@link AsyncCryptoStore#pruneStaleRecords} removes.
+ */
+export interface PruneRules {
+    /**
+     * Whether to remove outgoing room key requests that have been sent for sessions that are now in the store from
+     * their first message on, so that no reply could tell us more. Requests that are yet to be sent or cancelled are
+     * kept. Defaults to true.
+     */
+    keyRequestsForKnownSessions?: boolean;
+
+    /**
+     * The Olm module to read the first known message index of sessions with. Defaults to `global.Olm`, as set up for
+     * matrix-js-sdk. Without it, no key requests are removed.
+     */
+    olm?: OlmLike;
+
+    /**
+     * The key the sessions were pickled with. Defaults to matrix-js-sdk's default.
+     */
+    pickleKey?: string;
+
+    /**
+     * Whether to remove withheld notices for sessions that are in the store after all. Defaults to true.
+     */
+    withheldForKnownSessions?: boolean;
+
+    /**
+     * How long to keep the problems recorded with each device's Olm sessions for, in milliseconds, or null to keep
+     * them all. The latest problem of each device is always kept. Defaults to 30 days.
+     */
+    sessionProblemMaxAge?: number | null;
+
+    /**
+     * Whether to forget that devices that are no longer in the device list were notified of an Olm error. Defaults to
+     * true.
+     */
+    notifiedErrorDevicesNotInDeviceList?: boolean;
+
+    /**
+     * Whether to remove the chunks of values that have since been overwritten, e.g. by a write that was interrupted
+     * before it could remove them. Defaults to true.
+     */
+    staleChunks?: boolean;
+}
+
+/**
+ * What {@link AsyncCryptoStore#pruneStaleRecords} removed.
+ */
+export interface PruneReport {
+    // The IDs of the outgoing room key requests.
+    keyRequests: string[];
+    withheld: { senderKey: string; sessionId: string }[];
+    // The number of session problems, across all devices.
+    sessionProblems: number;
+    notifiedErrorDevices: { userId: string; deviceId: string }[];
+    // The number of chunk keys.
+    staleChunks: number;
+}
+
+/**
+ * A call of one of the store's methods, or a transaction, as reported to {@link AsyncCryptoStoreOpts#onTrace}.
+ */
+export interface CryptoStoreTrace {
+    kind: "operation" | "transaction";
+    // The name of the method, e.g. "getEndToEndSessionsBatch", or "doTxn" for transactions.
+    method: string;
+    // What the method works on, named after the object stores of IndexedDBCryptoStore, e.g. "sessions". Null for
+    // transactions and for methods that work on the whole store.
+    category: string | null;
+    // The mode and stores of a transaction.
+    mode?: Mode;
+    stores?: string[];
+    // In milliseconds. For transactions, this includes the time spent waiting for earlier transactions.
+    duration: number;
+    outcome: "success" | "error";
+    error?: unknown;
+}
+
+const DEFAULT_SESSION_PROBLEM_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+// The methods that write to the store. A read-only store rejects them, and a shared store holds its lock while they run.
+const MUTATING_METHODS = new Set([
+    "deleteAllData",
+    "setMigrationState",
+    "setMigrationPosition",
+    "getOrAddOutgoingRoomKeyRequest",
+    "updateOutgoingRoomKeyRequest",
+    "deleteOutgoingRoomKeyRequest",
+    "storeAccount",
+    "storeCrossSigningKeys",
+    "storeSecretStorePrivateKey",
+    "storeEndToEndSession",
+    "storeEndToEndSessionProblem",
+    "filterOutNotifiedErrorDevices",
+    "deleteEndToEndSessionsBatch",
+    "addEndToEndInboundGroupSession",
+    "storeEndToEndInboundGroupSession",
+    "storeEndToEndInboundGroupSessionWithheld",
+    "deleteEndToEndInboundGroupSessionsBatch",
+    "storeEndToEndDeviceData",
+    "storeEndToEndRoom",
+    "markSessionsNeedingBackup",
+    "unmarkSessionsNeedingBackup",
+    "addSharedHistoryInboundGroupSession",
+    "addParkedSharedHistory",
+    "takeParkedSharedHistory",
+    "importArchive",
+    "pruneStaleRecords",
+    "schedulePruning",
+]);
+
+export interface AsyncCryptoStoreOpts {
+    /**
+     * Keeps the store's keys apart from those of stores with other namespaces, so that several accounts can share
+     * one AsyncStorage. See {@link AsyncCryptoStore.namespaceForDevice}. Stores without a namespace use the keys of
+     * earlier versions of matrix-rn-sdk.
+     */
+    namespace?: string;
+
+    /**
+     * The prefix of the keys of the store, to keep several stores, or other data, apart in one AsyncStorage. It must
+     * not contain "." or "/". Defaults to "crypto".
+     */
+    prefix?: string;
+
+    /**
+     * The length above which values are split across several keys. Defaults to 256 KiB.
+     */
+    maxValueLength?: number;
+
+    /**
+     * A store for the secrets that can be used to impersonate the device or user, e.g. one backed by the platform
+     * Keychain or Keystore: the Olm account, the cross-signing keys and cached secret storage keys. Everything else
+     * stays in the main store. Secrets already in the main store are moved on startup.
+     */
+    secureStore?: AsyncCryptoStorage;
+
+    /**
+     * The logger to report problems to. Defaults to the matrix-js-sdk logger. Transactions log to the logger passed to
+     * `doTxn` instead, if there is one.
+     */
+    logger?: Logger;
+
+    /**
+     * Called after each call of one of the store's methods and each transaction, e.g. to find out which operations
+     * are slow.
+     */
+    onTrace?: (trace: CryptoStoreTrace) => void;
+
+    /**
+     * Shares the store with other JS contexts, such as a headless task or a notification service extension, through
+     * a lock that read-write transactions take. Every write is then announced to the other contexts, which read
+     * the store's keys again before their next transaction or call. Without it, the store assumes that it is the only
+     * one writing.
+     */
+    lock?: StoreLockOpts;
+
+    /**
+     * Opens the store for reading only, e.g. to decrypt a push notification while the app may be writing to it.
+     * `startup()` does nothing, the list of keys is only loaded by the methods that need it, and every method that
+     * writes rejects. Commits that the app was killed in the middle of are not finished.
+     */
+    readOnly?: boolean;
+
+    /**
+     * The total length, in characters, of the keys and values to keep in memory once read or written, so that reading
+     * them again doesn't cross to the backend. The least recently used values are dropped first. Only this store's own
+     * writes update the cache: stores shared with other JS contexts need the `lock`, with which the cache is
+     * cleared whenever another context has written to the store. Defaults to 0, which turns the cache off.
+     */
+    readCacheSize?: number;
+}
+
 export default class AsyncCryptoStore implements CryptoStore {
-    private initialized = false;
+    private readonly layout: KeyLayout;
+    private readonly prefix: string;
+    private readonly unnamespacedRoot: string;
+    private readonly maxValueLength: number;
+    private readonly secureStorage: AsyncCryptoStorage | null;
+    private readonly logger: Logger;
+    private readonly onTrace: ((trace: CryptoStoreTrace) => void) | null;
+    private readonly lock: StoreLock | null;
+    private readonly readOnly: boolean;
+    private readonly readCache: LruCache | null;
+    private keyIndex: Promise<KeyIndex> | null = null;
+    // Whether other JS contexts may write to the store, so that it must check for their writes.
+    private readonly shared: boolean;
+    // The last change to the store this context knows of, or undefined before it has checked. See KeyLayout.
+    private lastChange: string | null | undefined = undefined;
+    // Whether this context has written to the store since it last announced a change.
+    private unannouncedWrites = false;
+    // The position after the last entry of the backup queue, once known.
+    private backupQueueEnd: number | null = null;
+    private scheduler = new TransactionScheduler();
+    // The ID of the next journal. Starting from the time keeps IDs increasing across restarts.
+    private nextJournalId = Date.now();
+    // Sessions that the batch methods couldn't read, to be deleted along with the next batch: they can't be migrated,
+    // and would otherwise be read again by every later batch.
+    private unreadableSessionKeys = new Set<string>();
+
+    public constructor(
+        private storage: AsyncCryptoStorage,
+        opts: AsyncCryptoStoreOpts = {},
+    ) {
+        const prefix = opts.prefix ?? DEFAULT_PREFIX;
+        this.prefix = prefix;
+        this.unnamespacedRoot = unnamespacedRoot(prefix);
+        this.maxValueLength = opts.maxValueLength ?? DEFAULT_MAX_VALUE_LENGTH;
+        // Moving secrets from a store into itself would delete them.
+        this.secureStorage = opts.secureStore && opts.secureStore !== storage ? opts.secureStore : null;
+        this.logger = opts.logger ?? defaultLogger;
+        this.onTrace = opts.onTrace ?? null;
+        this.layout = new KeyLayout(
+            opts.namespace === undefined
+                ? this.unnamespacedRoot
+                : namespacesRoot(prefix) + encodeURIComponent(opts.namespace) + "/",
+        );
+        this.readOnly = opts.readOnly ?? false;
+        this.readCache = opts.readCacheSize ? new LruCache(opts.readCacheSize) : null;
+        // A read-only store never writes, so it has no need of the lock.
+        this.lock =
+            opts.lock && !this.readOnly
+                ? new StoreLock(storage, this.layout.lock, opts.lock, this.logger, (previousHolder) =>
+                      this.takeOverFrom(previousHolder),
+                  )
+                : null;
+        this.shared = this.lock !== null || this.readOnly;
+    }
+
+    /**
+     * @returns the namespace to use for the crypto store of a device.
+     */
+    public static namespaceForDevice(userId: string, deviceId: string): string {
+        return `${userId}/${deviceId}`;
+    }
+
+    /**
+     * Lists the namespaces that hold data in `storage`.
+     */
+    public static async listNamespaces(storage: AsyncCryptoStorage, prefix = DEFAULT_PREFIX): Promise<string[]> {
+        const root = namespacesRoot(prefix);
+        const namespaces = new Set<string>();
+        for (const key of await storage.getAllKeys()) {
+            const end = key.indexOf("/", root.length);
+            // Keys without a separator, or that don't decode, aren't ours, even if they start like ours.
+            if (!key.startsWith(root) || end === -1) {
+                continue;
+            }
+            try {
+                namespaces.add(decodeURIComponent(key.slice(root.length, end)));
+            } catch (e) {
+                continue;
+            }
+        }
+        return [...namespaces];
+    }
+
+    /**
+     * Deletes all the data of a namespace, e.g. once its account has logged out. The namespace must not be in use
+     * by a running client.
+     *
+     * @param secureStore - The secure store the namespace keeps its secrets in, if any.
+     */
+    public static async deleteNamespace(
+        storage: AsyncCryptoStorage,
+        namespace: string,
+        prefix = DEFAULT_PREFIX,
+        secureStore?: AsyncCryptoStorage,
+    ): Promise<void> {
+        await new AsyncCryptoStore(storage, { namespace, prefix, secureStore }).deleteAllData();
+    }
+
+    /**
+     * Gets the index of the keys in the store, loading it from the backend the first time it is needed.
+     *
+     * If the store has a secure store and isn't read-only, loading the index first moves any secrets left in the main
+     * store into it, so that every other method finds each key in the store it belongs to.
+     */
+    private getKeyIndex(): Promise<KeyIndex> {
+        if (!this.keyIndex) {
+            this.keyIndex = (async (): Promise<KeyIndex> => {
+                const index = new KeyIndex(this.layout.root, this.layout.categoryPrefixes);
+                const keys = await this.storage.getAllKeys();
+                if (!this.secureStorage) {
+                    index.load(keys);
+                    return index;
+                }
+                if (!this.readOnly) {
+                    await this.moveToSecureStorage(keys.filter((k) => this.layout.isSecretKey(k)));
+                }
+                index.load([
+                    ...keys.filter((k) => !this.layout.isSecretKey(k)),
+                    ...(await this.secureStorage.getAllKeys()),
+                ]);
+                return index;
+            })();
+            // Let the next caller retry if loading failed.
+            this.keyIndex.catch(() => {
+                this.keyIndex = null;
+            });
+        }
+        return this.keyIndex;
+    }
+
+    /**
+     * Lists the keys starting with `prefix`, including any that `txn` has written but not yet committed.
+     */
+    private async getKeysWithPrefix(prefix: string, txn?: Transaction): Promise<string[]> {
+        const keys = (await this.getKeyIndex()).getKeysWithPrefix(prefix);
+        if (!txn) {
+            return keys;
+        }
+
+        const result = new Set(keys);
+        for (const [key, value] of txn.getPendingWrites()) {
+            if (!key.startsWith(prefix)) {
+                continue;
+            }
+            if (value === null) {
+                result.delete(key);
+            } else {
+                result.add(key);
+            }
+        }
+        return [...result];
+    }
+
+    /**
+     * Moves keys, as they are stored, from the main store to the secure store. Everything is copied before anything
+     * is deleted, so the move is repeated in full if the app is killed part way.
+     */
+    private async moveToSecureStorage(keys: string[]): Promise<void> {
+        if (!this.secureStorage || keys.length === 0) {
+            return;
+        }
+        const values = await readFrom(this.storage, keys);
+        const entries: [string, string][] = [];
+        keys.forEach((key, i) => {
+            const value = values[i];
+            if (value !== null) {
+                entries.push([key, value]);
+            }
+        });
+        await writeTo(this.secureStorage, entries);
+        await removeFrom(this.storage, keys);
+    }
+
+    /**
+     * Gets the backend that holds `key`.
+     */
+    private storageFor(key: string): AsyncCryptoStorage {
+        return this.secureStorage && this.layout.isSecretKey(key) ? this.secureStorage : this.storage;
+    }
+
+    /**
+     * Splits `items` by the backend that holds their key.
+     */
+    private groupByStorage<T>(items: T[], keyOf: (item: T) => string): [AsyncCryptoStorage, T[]][] {
+        const groups = new Map<AsyncCryptoStorage, T[]>();
+        for (const item of items) {
+            const storage = this.storageFor(keyOf(item));
+            const group = groups.get(storage);
+            if (group) {
+                group.push(item);
+            } else {
+                groups.set(storage, [item]);
+            }
+        }
+        return [...groups];
+    }
+
+    private async countKeysWithPrefix(prefix: string, txn?: Transaction): Promise<number> {
+        if (txn && [...txn.getPendingWrites().keys()].some((k) => k.startsWith(prefix))) {
+            return (await this.getKeysWithPrefix(prefix, txn)).length;
+        }
+        return (await this.getKeyIndex()).countKeysWithPrefix(prefix);
+    }
 
-    public constructor(private storage: AsyncCryptoStorage) {}
+    private async getItem(key: string, txn?: Transaction): Promise<string | null> {
+        const pending = txn?.getPendingItem(key);
+        if (pending !== undefined) {
+            return pending;
+        }
+        const cache = this.cacheFor(key);
+        const cached = cache?.get(key);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const version = cache?.version;
+        const stored = await this.storageFor(key).getItem(key);
+        const value = stored?.startsWith(CHUNKED_VALUE_MARKER) ? await this.readChunkedValue(key, stored) : stored;
+        cache?.fill(key, value, version!);
+        return value;
+    }
 
-    private async getAllOutgoingKeyRequestKeys(): Promise<string[]> {
-        return (await this.storage.getAllKeys()).filter((k) => k.startsWith(OUTGOING_KEY_REQUEST_PREFIX));
+    /**
+     * Gets the read cache if `key` belongs in it. Journals are only read back after a crash, so they would just push
+     * other values out.
+     */
+    private cacheFor(key: string): LruCache | null {
+        if (key.startsWith(this.layout.journalPrefix) || key.startsWith(this.layout.secretJournalPrefix)) {
+            return null;
+        }
+        return this.readCache;
     }
 
-    private async getJsonItem(key: string): Promise<unknown> {
-        const item = await this.storage.getItem(key);
+    private async getJsonItem(key: string, txn?: Transaction): Promise<unknown> {
+        const item = await this.getItem(key, txn);
         if (item === null) {
             return null;
         }
         return JSON.parse(item);
     }
 
-    private async setJsonItem(key: string, val: unknown): Promise<void> {
-        return this.storage.setItem(key, JSON.stringify(val));
+    /**
+     * Reads several keys at once, using the backend's multiGet if it has one.
+     *
+     * @returns the values, in the same order as `keys`.
+     */
+    private async getItems(keys: string[], txn?: Transaction): Promise<(string | null)[]> {
+        const values = new Map<string, string | null>();
+        const toFetch: string[] = [];
+        for (const key of keys) {
+            let value = txn?.getPendingItem(key);
+            if (value === undefined) {
+                value = this.cacheFor(key)?.get(key);
+            }
+            if (value !== undefined) {
+                values.set(key, value);
+            } else {
+                toFetch.push(key);
+            }
+        }
+
+        const version = this.readCache?.version;
+        const fetched = await this.readItems(toFetch);
+        for (const [i, key] of toFetch.entries()) {
+            const stored = fetched[i];
+            const value = stored?.startsWith(CHUNKED_VALUE_MARKER) ? await this.readChunkedValue(key, stored) : stored;
+            values.set(key, value);
+            this.cacheFor(key)?.fill(key, value, version!);
+        }
+
+        return keys.map((key) => values.get(key) ?? null);
+    }
+
+    /**
+     * Reads several keys straight from the backends that hold them.
+     *
+     * @returns the values, in the same order as `keys`.
+     */
+    private async readItems(keys: string[]): Promise<(string | null)[]> {
+        const values = new Map<string, string | null>();
+        for (const [storage, group] of this.groupByStorage(keys, (k) => k)) {
+            const groupValues = await readFrom(storage, group);
+            group.forEach((key, i) => values.set(key, groupValues[i]));
+        }
+        return keys.map((key) => values.get(key) ?? null);
+    }
+
+    /**
+     * Puts a chunked value back together.
+     *
+     * @param key - The key of the value.
+     * @param header - What is stored under `key`.
+     * @throws if any chunk is missing or has the wrong length, e.g. because it was deleted from the backend.
+     */
+    private async readChunkedValue(key: string, header: string): Promise<string> {
+        const { generation, count, length } = JSON.parse(
+            header.slice(CHUNKED_VALUE_MARKER.length),
+        ) as ChunkedValueHeader;
+        const chunkKeys: string[] = [];
+        for (let i = 0; i < count; i++) {
+            chunkKeys.push(this.layout.keyChunk(key, generation, i));
+        }
+        const chunks = await this.readItems(chunkKeys);
+        const value = chunks.join("");
+        if (chunks.some((c) => c === null) || value.length !== length) {
+            throw new Error(`The value of ${key} is incomplete: some of its ${count} chunks are missing`);
+        }
+        return value;
+    }
+
+    private async getJsonItems(keys: string[], txn?: Transaction): Promise<unknown[]> {
+        return (await this.getItems(keys, txn)).map((item) => (item === null ? null : JSON.parse(item)));
+    }
+
+    private async setJsonItem(key: string, val: unknown, txn?: Transaction): Promise<void> {
+        if (txn) {
+            txn.setItem(key, JSON.stringify(val));
+            return;
+        }
+        return this.setItems([[key, JSON.stringify(val)]]);
+    }
+
+    private async removeItem(key: string, txn?: Transaction): Promise<void> {
+        if (txn) {
+            txn.removeItem(key);
+            return;
+        }
+        return this.removeItems([key]);
+    }
+
+    /**
+     * Runs `func` as an operation of `txn` if the caller passed one, or straight against storage otherwise.
+     */
+    private async runInOptionalTxn<T>(txn: unknown, func: (txn?: Transaction) => Promise<T>): Promise<T> {
+        if (!txn) {
+            return func();
+        }
+        return (txn as Transaction).run(() => func(txn as Transaction));
+    }
+
+    /**
+     * Runs `func`, reporting it to the tracing hook, if there is one, as a call of `method` on `category`.
+     */
+    private async trace<T>(method: string, category: string | null, func: () => Promise<T>): Promise<T> {
+        this.assertWritable(method);
+        // Startup may finish writes that another context was interrupted in.
+        const locked = this.lock !== null && (method === "startup" || MUTATING_METHODS.has(method));
+        return this.traceOperation(method, category, async () => {
+            if (locked) {
+                await this.lock!.acquire();
+            }
+            try {
+                await this.catchUpWithOtherContexts();
+                try {
+                    return await func();
+                } finally {
+                    await this.announceChanges();
+                }
+            } finally {
+                if (locked) {
+                    await this.lock!.release();
+                }
+            }
+        });
+    }
+
+    /**
+     * Queues an operation of the callback-style methods on a transaction, tracing it like
+     * {@link AsyncCryptoStore#trace}. The transaction itself checks for and announces changes.
+     */
+    private execute(txn: unknown, method: string, category: string | null, func: () => Promise<void>): void {
+        this.assertWritable(method);
+        (txn as Transaction).execute(() => this.traceOperation(method, category, func));
+    }
+
+    private async traceOperation<T>(method: string, category: string | null, func: () => Promise<T>): Promise<T> {
+        if (!this.onTrace) {
+            return func();
+        }
+        const start = Date.now();
+        try {
+            const result = await func();
+            this.report({ kind: "operation", method, category, duration: Date.now() - start, outcome: "success" });
+            return result;
+        } catch (e) {
+            this.report({
+                kind: "operation",
+                method,
+                category,
+                duration: Date.now() - start,
+                outcome: "error",
+                error: e,
+            });
+            throw e;
+        }
+    }
+
+    /**
+     * Forgets the key index, read cache and backup queue position if another JS context has written to the store
+     * since this one last checked, so that they are read again from the backend.
+     */
+    private async catchUpWithOtherContexts(): Promise<void> {
+        if (!this.shared) {
+            return;
+        }
+        const lastChange = await this.storage.getItem(this.layout.lastChange);
+        if (lastChange !== this.lastChange) {
+            this.lastChange = lastChange;
+            this.forgetLoadedState();
+        }
+    }
+
+    /**
+     * Tells the other JS contexts sharing the store that this one has written to it.
+     */
+    private async announceChanges(): Promise<void> {
+        if (!this.unannouncedWrites || !this.shared) {
+            return;
+        }
+        this.unannouncedWrites = false;
+        try {
+            // Another context may have written since this one last checked.
+            await this.catchUpWithOtherContexts();
+            const change = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+            await this.storage.setItem(this.layout.lastChange, change);
+            this.lastChange = change;
+        } catch (e) {
+            this.unannouncedWrites = true;
+            this.logger.warn("Failed to tell other JS contexts about changes to the crypto store", e);
+        }
+    }
+
+    private forgetLoadedState(): void {
+        this.keyIndex = null;
+        this.backupQueueEnd = null;
+        this.readCache?.clear();
+    }
+
+    /**
+     * @throws if `method` writes to the store and the store is read-only.
+     */
+    private assertWritable(method: string): void {
+        if (this.readOnly && MUTATING_METHODS.has(method)) {
+            throw new Error(`Can't call ${method} on a read-only crypto store`);
+        }
+    }
+
+    private report(trace: CryptoStoreTrace): void {
+        try {
+            this.onTrace?.(trace);
+        } catch (e) {
+            this.logger.warn("The crypto store's trace hook threw", e);
+        }
+    }
+
+    /**
+     * Removes keys, and the chunks of any that hold chunked values, from the backend and from the key index.
+     */
+    private async removeItems(keys: string[]): Promise<void> {
+        const index = await this.getKeyIndex();
+        const chunkKeys: string[] = [];
+        for (const key of keys) {
+            chunkKeys.push(...index.getKeysWithPrefix(this.layout.prefixChunks(key)));
+        }
+        await this.deleteItems([...keys, ...chunkKeys]);
+    }
+
+    /**
+     * Removes keys from the backends that hold them and from the key index.
+     */
+    private async deleteItems(keys: string[]): Promise<void> {
+        if (keys.length === 0) {
+            return;
+        }
+        keys.forEach((key) => this.readCache?.delete(key));
+        this.unannouncedWrites = true;
+        for (const [storage, group] of this.groupByStorage(keys, (k) => k)) {
+            await removeFrom(storage, group);
+        }
+        // Reads that started during the removal may have cached the old values.
+        keys.forEach((key) => this.readCache?.delete(key));
+        // The index may have been reloaded in the meantime, after another context wrote to the store.
+        const index = await this.getKeyIndex();
+        keys.forEach((key) => index.remove(key));
+    }
+
+    /**
+     * Writes keys, splitting values longer than the maximum value length into chunks.
+     *
+     * The chunks of a value are written before the header that points to them, and the chunks of the value it
+     * replaces are only removed afterwards, so an interrupted write leaves the previous value readable.
+     */
+    private async setItems(keyValuePairs: [string, string][]): Promise<void> {
+        const index = await this.getKeyIndex();
+        // Until the write has succeeded, the backend may hold either value.
+        keyValuePairs.forEach(([key]) => this.readCache?.delete(key));
+        const chunks: [string, string][] = [];
+        const entries: [string, string][] = [];
+        const staleChunkKeys: string[] = [];
+        for (const [key, value] of keyValuePairs) {
+            const oldChunkKeys = index.getKeysWithPrefix(this.layout.prefixChunks(key));
+            staleChunkKeys.push(...oldChunkKeys);
+            if (value.length <= this.maxValueLength) {
+                entries.push([key, value]);
+                continue;
+            }
+
+            const generation = Math.max(-1, ...oldChunkKeys.map((k) => this.layout.parseChunkGeneration(k))) + 1;
+            const count = Math.ceil(value.length / this.maxValueLength);
+            for (let i = 0; i < count; i++) {
+                const chunk = value.slice(i * this.maxValueLength, (i + 1) * this.maxValueLength);
+                chunks.push([this.layout.keyChunk(key, generation, i), chunk]);
+            }
+            const header: ChunkedValueHeader = { generation, count, length: value.length };
+            entries.push([key, CHUNKED_VALUE_MARKER + JSON.stringify(header)]);
+        }
+
+        await this.writeItems(chunks);
+        await this.writeItems(entries);
+        keyValuePairs.forEach(([key, value]) => this.cacheFor(key)?.set(key, value));
+        await this.deleteItems(staleChunkKeys);
+    }
+
+    /**
+     * Writes keys to the backends they belong in, and adds them to the key index.
+     */
+    private async writeItems(keyValuePairs: [string, string][]): Promise<void> {
+        if (keyValuePairs.length === 0) {
+            return;
+        }
+        this.unannouncedWrites = true;
+        for (const [storage, group] of this.groupByStorage(keyValuePairs, ([k]) => k)) {
+            await writeTo(storage, group);
+        }
+        // The index may have been reloaded in the meantime, after another context wrote to the store.
+        const index = await this.getKeyIndex();
+        keyValuePairs.forEach(([key]) => index.add(key));
+    }
+
+    /**
+     * Applies writes that must happen together, e.g. those of a transaction. Several writes are first recorded in a
+     * journal, so that {@link AsyncCryptoStore#replayJournals} can finish applying them if the app is killed before
+     * they have all been applied.
+     */
+    private async commitWrites(writes: ReadonlyMap<string, string | null>): Promise<void> {
+        if (writes.size <= 1) {
+            return this.applyWrites(writes);
+        }
+        const secret = this.secureStorage !== null && [...writes.keys()].some((k) => this.layout.isSecretKey(k));
+        const journalKey = this.layout.keyJournal(this.nextJournalId++, secret);
+        await this.setItems([[journalKey, JSON.stringify([...writes])]]);
+        await this.applyWrites(writes);
+        await this.removeItems([journalKey]);
+    }
+
+    private async applyWrites(writes: ReadonlyMap<string, string | null>): Promise<void> {
+        const toSet: [string, string][] = [];
+        const toRemove: string[] = [];
+        for (const [key, value] of writes) {
+            if (value === null) {
+                toRemove.push(key);
+            } else {
+                toSet.push([key, value]);
+            }
+        }
+        await this.setItems(toSet);
+        await this.removeItems(toRemove);
+    }
+
+    /**
+     * Reads a page of the values in a key category, in key order.
+     *
+     * @param category - The category prefix.
+     * @param cursor - The cursor returned with the previous page, or null for the first page.
+     * @param limit - The number of keys to read.
+     */
+    private async readPage(
+        category: string,
+        cursor: string | null,
+        limit: number,
+    ): Promise<SessionPage<[key: string, value: unknown]>> {
+        const index = await this.getKeyIndex();
+        const keys = index.getKeysAfter(category, cursor === null ? null : category + cursor, limit);
+        let values: (string | null)[] | null = null;
+        try {
+            values = await this.getItems(keys);
+        } catch (e) {
+            // Some value is incomplete: read them one at a time below, to find out which.
+        }
+
+        const entries: [string, unknown][] = [];
+        const unreadable: { key: string; error: Error }[] = [];
+        for (const [i, key] of keys.entries()) {
+            try {
+                const value = values ? values[i] : await this.getItem(key);
+                if (value !== null) {
+                    entries.push([key, JSON.parse(value)]);
+                }
+            } catch (e) {
+                unreadable.push({ key: key.slice(category.length), error: e as Error });
+            }
+        }
+        return {
+            sessions: entries,
+            unreadable,
+            cursor: keys.length < limit ? null : keys[keys.length - 1].slice(category.length),
+        };
+    }
+
+    /**
+     * Logs the sessions a batch method couldn't read, and remembers them to be deleted with the next batch.
+     */
+    private skipUnreadableSessions(category: string, unreadable: { key: string; error: Error }[]): void {
+        for (const { key, error } of unreadable) {
+            this.logger.error(`Skipping unreadable session ${key}`, error);
+            this.unreadableSessionKeys.add(category + key);
+        }
+    }
+
+    /**
+     * Takes the unreadable sessions that have been skipped in a category, to be deleted.
+     */
+    private takeUnreadableSessionKeys(category: string): string[] {
+        const keys = [...this.unreadableSessionKeys].filter((k) => k.startsWith(category));
+        keys.forEach((k) => this.unreadableSessionKeys.delete(k));
+        return keys;
+    }
+
+    /**
+     * Loads the outgoing room key requests listed under an index prefix, in the order they were indexed.
+     */
+    private async getOutgoingRoomKeyRequestsByIndex(indexPrefix: string): Promise<OutgoingRoomKeyRequest[]> {
+        const indexKeys = await this.getKeysWithPrefix(indexPrefix);
+        const keys = indexKeys.map((k) => this.layout.keyOutgoingKeyRequest(requestIdFromIndexKey(k)));
+        const reqs = (await this.getJsonItems(keys)) as (OutgoingRoomKeyRequest | null)[];
+        return reqs.filter((req): req is OutgoingRoomKeyRequest => req !== null);
+    }
+
+    /**
+     * Stores an outgoing room key request, and brings its index entries up to date.
+     *
+     * @param request - The new value of the request.
+     * @param previous - The value the request had before, if it was already stored.
+     */
+    private async putOutgoingRoomKeyRequest(
+        request: OutgoingRoomKeyRequest,
+        previous: OutgoingRoomKeyRequest | null,
+    ): Promise<void> {
+        const indexKeys = this.layout.keysOutgoingKeyRequestIndexes(request);
+        const previousIndexKeys = previous ? this.layout.keysOutgoingKeyRequestIndexes(previous) : [];
+        const writes = new Map<string, string | null>([
+            [this.layout.keyOutgoingKeyRequest(request.requestId), JSON.stringify(request)],
+        ]);
+        for (const key of indexKeys.filter((k) => !previousIndexKeys.includes(k))) {
+            writes.set(key, JSON.stringify(request.requestId));
+        }
+        for (const key of previousIndexKeys.filter((k) => !indexKeys.includes(k))) {
+            writes.set(key, null);
+        }
+        await this.commitWrites(writes);
+    }
+
+    /**
+     * Finishes applying the writes of commits that were interrupted, e.g. because the app was killed. A journal that
+     * can't be read was itself interrupted while it was being written, before any of its writes were applied, so it
+     * is discarded.
+     */
+    private async replayJournals(): Promise<void> {
+        const index = await this.getKeyIndex();
+        const journalKeys = [
+            ...index.getKeysWithPrefix(this.layout.journalPrefix),
+            ...index.getKeysWithPrefix(this.layout.secretJournalPrefix),
+        ].sort((a, b) => a.slice(a.lastIndexOf("/")).localeCompare(b.slice(b.lastIndexOf("/"))));
+        // The chunks of journals whose header was never written.
+        const orphanedChunkKeys = [
+            ...index.getKeysWithPrefix(this.layout.chunksPrefix + encodeURIComponent(this.layout.journalPrefix)),
+            ...index.getKeysWithPrefix(this.layout.chunksPrefix + encodeURIComponent(this.layout.secretJournalPrefix)),
+        ].filter((k) => !index.has(this.layout.parseChunkedKey(k)));
+
+        for (const key of journalKeys) {
+            let writes: [string, string | null][] | null = null;
+            try {
+                writes = (await this.getJsonItem(key)) as [string, string | null][] | null;
+            } catch (e) {
+                this.logger.warn(`Discarding the incomplete crypto store journal ${key}`, e);
+            }
+            if (writes) {
+                this.logger.info(`Replaying ${writes.length} crypto store writes from the journal ${key}`);
+                await this.applyWrites(new Map(writes));
+            }
+            await this.removeItems([key]);
+        }
+        await this.deleteItems(orphanedChunkKeys);
+    }
+
+    /**
+     * Catches up with the writes of another context, once this one has taken the lock after it. The key index, read
+     * cache and backup queue position may be out of date, and the other context may have been killed in the middle of
+     * a commit.
+     */
+    private async takeOverFrom(previousHolder: string): Promise<void> {
+        this.logger.info(`Taking the crypto store lock over from ${previousHolder}`);
+        this.forgetLoadedState();
+        await this.replayJournals();
+    }
+
+    /**
+     * The steps that upgrade the layout of an existing store, in order. Each step brings the store from the previous
+     * version up to `version`.
+     *
+     * The new version is only recorded once a step has finished, so a step is run again if the app is killed while
+     * it runs: steps must be safe to re-run over their own partial results.
+     */
+    private readonly schemaMigrations: { version: number; migrate: () => Promise<void> }[] = [
+        { version: 1, migrate: () => this.buildOutgoingRoomKeyRequestIndexes() },
+        { version: 2, migrate: () => this.encodeRoomKeys() },
+        { version: 3, migrate: () => this.splitSessionsNeedingBackup() },
+    ];
+
+    /**
+     * Runs the schema migrations the store has not had yet.
+     */
+    private async migrateSchema(): Promise<void> {
+        const latestVersion = this.schemaMigrations[this.schemaMigrations.length - 1].version;
+
+        let version = (await this.getJsonItem(this.layout.schemaVersion)) as number | null;
+        if (version === null) {
+            // Either a brand new store, which already has the latest layout, or one from before the schema was
+            // versioned, which needs every migration.
+            version = (await this.containsData()) ? 0 : latestVersion;
+        }
+        if (version > latestVersion) {
+            throw new Error(
+                `Crypto store has schema version ${version}, but this version of matrix-rn-sdk only supports up to ` +
+                    `${latestVersion}`,
+            );
+        }
+
+        for (const migration of this.schemaMigrations) {
+            if (migration.version > version) {
+                await migration.migrate();
+                await this.setJsonItem(this.layout.schemaVersion, migration.version);
+            }
+        }
+        if ((await this.getJsonItem(this.layout.schemaVersion)) === null) {
+            await this.setJsonItem(this.layout.schemaVersion, latestVersion);
+        }
+    }
+
+    /**
+     * Indexes any outgoing room key requests that were stored before the indexes existed.
+     */
+    private async buildOutgoingRoomKeyRequestIndexes(): Promise<void> {
+        const keys = await this.getKeysWithPrefix(this.layout.outgoingKeyRequestPrefix);
+        for (const batch of chunk(keys, SESSION_BATCH_SIZE)) {
+            const reqs = (await this.getJsonItems(batch)) as OutgoingRoomKeyRequest[];
+            const entries: [string, string][] = [];
+            for (const req of reqs) {
+                for (const k of this.layout.keysOutgoingKeyRequestIndexes(req)) {
+                    entries.push([k, JSON.stringify(req.requestId)]);
+                }
+            }
+            await this.setItems(entries);
+        }
+    }
+
+    /**
+     * Moves the encryption settings of rooms to keys with a URI-encoded room ID, like every other key.
+     */
+    private async encodeRoomKeys(): Promise<void> {
+        for (const key of await this.getKeysWithPrefix(this.layout.roomsPrefix)) {
+            const roomId = key.slice(this.layout.roomsPrefix.length);
+            if (isUriEncoded(roomId)) {
+                continue;
+            }
+            const value = await this.getItem(key);
+            if (value !== null) {
+                await this.setItems([[this.layout.keyEndToEndRoom(roomId), value]]);
+            }
+            await this.removeItems([key]);
+        }
+    }
+
+    /**
+     * Replaces the map of the sessions needing backup with a marker and queue entry per session, in the map's order.
+     */
+    private async splitSessionsNeedingBackup(): Promise<void> {
+        const sessionsNeedingBackup = ((await this.getJsonItem(this.layout.sessionsNeedingBackup)) || {}) as {
+            [sessionKey: string]: boolean;
+        };
+        const sessions = Object.keys(sessionsNeedingBackup).map((k) => {
+            const [senderKey, sessionId] = k.split("/");
+            return { senderKey: decodeURIComponent(senderKey), sessionId: decodeURIComponent(sessionId) };
+        });
+        for (const batch of chunk(sessions, SESSION_BATCH_SIZE)) {
+            await this.markSessionsNeedingBackup(batch);
+        }
+        await this.removeItems([this.layout.sessionsNeedingBackup]);
+    }
+
+    /**
+     * Gets the unnamespaced store, if this store has a namespace, has never been started, and the unnamespaced store
+     * holds data: the first namespaced store to start up takes over the data written before namespaces existed.
+     */
+    private async getUnnamespacedStoreToAdopt(): Promise<AsyncCryptoStore | null> {
+        if (this.layout.root === this.unnamespacedRoot || (await this.getItem(this.layout.storeCreated)) !== null) {
+            return null;
+        }
+        const store = new AsyncCryptoStore(this.storage, {
+            prefix: this.prefix,
+            maxValueLength: this.maxValueLength,
+            secureStore: this.secureStorage ?? undefined,
+            logger: this.logger,
+        });
+        return (await store.getKeysWithPrefix(store.layout.root)).length > 0 ? store : null;
+    }
+
+    /**
+     * Moves the data of the unnamespaced store, if any, into this store's namespace.
+     *
+     * This runs before the store-created marker is written, and copies everything but that marker before deleting
+     * anything, so it picks up where it left off if the app is killed part way.
+     */
+    private async adoptUnnamespacedData(): Promise<void> {
+        const store = await this.getUnnamespacedStoreToAdopt();
+        if (!store) {
+            return;
+        }
+        // Chunked values are read back whole, and chunked again as needed when written.
+        const keys = (await store.getKeysWithPrefix(store.layout.root)).filter(
+            (k) => !k.startsWith(store.layout.chunksPrefix) && k !== store.layout.storeCreated,
+        );
+        for (const batch of chunk(keys, SESSION_BATCH_SIZE)) {
+            const values = await store.getItems(batch);
+            const entries: [string, string][] = [];
+            batch.forEach((key, i) => {
+                const value = values[i];
+                if (value !== null) {
+                    entries.push([this.layout.root + key.slice(store.layout.root.length), value]);
+                }
+            });
+            await this.setItems(entries);
+        }
+        await store.deleteAllData();
     }
 
     // CryptoStore
 
     public async containsData(): Promise<boolean> {
-        return this.initialized;
+        return this.trace("containsData", null, async () => {
+            // The data of an interrupted import is thrown away when the import is retried.
+            if ((await this.getItem(this.layout.importPending)) !== null) {
+                return false;
+            }
+            if ((await this.getItem(this.layout.storeCreated)) !== null) {
+                return true;
+            }
+            // Stores created before the marker existed may still hold data, as may an unnamespaced store we would adopt.
+            if ((await this.getKeysWithPrefix(this.layout.root)).some((k) => !this.layout.isSharingKey(k))) {
+                return true;
+            }
+            return (await this.getUnnamespacedStoreToAdopt()) !== null;
+        });
     }
 
     public async startup(): Promise<CryptoStore> {
-        this.initialized = true;
-        return this;
+        return this.trace("startup", null, async () => {
+            if (this.readOnly) {
+                return this;
+            }
+            await this.getKeyIndex();
+            await this.replayJournals();
+            await this.adoptUnnamespacedData();
+            await this.migrateSchema();
+            if ((await this.getItem(this.layout.storeCreated)) === null) {
+                await this.setJsonItem(this.layout.storeCreated, Date.now());
+            }
+            return this;
+        });
     }
 
     public async deleteAllData(): Promise<void> {
-        const keys = (await this.storage.getAllKeys()).filter((k) => k.startsWith(E2E_PREFIX));
-        for (const key of keys) {
-            await this.storage.removeItem(key);
-        }
+        return this.trace("deleteAllData", null, async () => {
+            this.readCache?.clear();
+            await this.removeItems(await this.getKeysWithPrefix(this.layout.root));
+        });
     }
 
     public async getMigrationState(): Promise<MigrationState> {
-        return ((await this.getJsonItem(KEY_END_TO_END_MIGRATION_STATE)) ??
-            MigrationState.NOT_STARTED) as MigrationState;
+        return this.trace("getMigrationState", "migration", async () => {
+            return ((await this.getJsonItem(this.layout.endToEndMigrationState)) ??
+                MigrationState.NOT_STARTED) as MigrationState;
+        });
     }
 
     public async setMigrationState(migrationState: MigrationState): Promise<void> {
-        await this.setJsonItem(KEY_END_TO_END_MIGRATION_STATE, migrationState);
+        return this.trace("setMigrationState", "migration", async () => {
+            await this.setJsonItem(this.layout.endToEndMigrationState, migrationState);
+        });
     }
 
-    public async getOrAddOutgoingRoomKeyRequest(request: OutgoingRoomKeyRequest): Promise<OutgoingRoomKeyRequest> {
-        const req = await this.getOutgoingRoomKeyRequest(request.requestBody);
-        if (req) {
-            return req;
-        }
-        await this.setJsonItem(keyOutgoingKeyRequest(request.requestId), request);
-        return request;
+    public async getMigrationPosition(): Promise<MigrationPosition | null> {
+        return this.trace("getMigrationPosition", "migration", async () => {
+            return (await this.getJsonItem(this.layout.endToEndMigrationPosition)) as MigrationPosition | null;
+        });
     }
 
-    public async getOutgoingRoomKeyRequest(requestBody: IRoomKeyRequestBody): Promise<OutgoingRoomKeyRequest | null> {
-        for (const key of await this.getAllOutgoingKeyRequestKeys()) {
-            const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
-            if (
-                req.requestBody.room_id === requestBody.room_id &&
-                req.requestBody.session_id === requestBody.session_id
-            ) {
+    /**
+     * Saves how far a migration has got, or clears it if `position` is null.
+     */
+    public async setMigrationPosition(position: MigrationPosition | null): Promise<void> {
+        return this.trace("setMigrationPosition", "migration", async () => {
+            if (position === null) {
+                await this.removeItems([this.layout.endToEndMigrationPosition]);
+            } else {
+                await this.setJsonItem(this.layout.endToEndMigrationPosition, position);
+            }
+        });
+    }
+
+    public async getOrAddOutgoingRoomKeyRequest(request: OutgoingRoomKeyRequest): Promise<OutgoingRoomKeyRequest> {
+        return this.trace("getOrAddOutgoingRoomKeyRequest", KEY_REQUESTS, async () => {
+            const req = await this.getOutgoingRoomKeyRequest(request.requestBody);
+            if (req) {
                 return req;
             }
-        }
-        return null;
+            await this.putOutgoingRoomKeyRequest(request, null);
+            return request;
+        });
+    }
+
+    public async getOutgoingRoomKeyRequest(requestBody: IRoomKeyRequestBody): Promise<OutgoingRoomKeyRequest | null> {
+        return this.trace("getOutgoingRoomKeyRequest", KEY_REQUESTS, async () => {
+            const reqs = await this.getOutgoingRoomKeyRequestsByIndex(
+                this.layout.prefixOutgoingKeyRequestByBody(requestBody.room_id, requestBody.session_id),
+            );
+            return (
+                reqs.find(
+                    (req) =>
+                        req.requestBody.room_id === requestBody.room_id &&
+                        req.requestBody.session_id === requestBody.session_id,
+                ) ?? null
+            );
+        });
     }
 
     public async getOutgoingRoomKeyRequestByState(wantedStates: number[]): Promise<OutgoingRoomKeyRequest | null> {
-        for (const key of await this.getAllOutgoingKeyRequestKeys()) {
-            const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
-            if (wantedStates.includes(req.state)) {
-                return req;
+        return this.trace("getOutgoingRoomKeyRequestByState", KEY_REQUESTS, async () => {
+            for (const state of wantedStates) {
+                const reqs = await this.getOutgoingRoomKeyRequestsByIndex(
+                    this.layout.prefixOutgoingKeyRequestByState(state),
+                );
+                const req = reqs.find((req) => req.state === state);
+                if (req) {
+                    return req;
+                }
             }
-        }
-        return null;
+            return null;
+        });
     }
 
     public async getAllOutgoingRoomKeyRequestsByState(wantedState: number): Promise<OutgoingRoomKeyRequest[]> {
-        const reqs: OutgoingRoomKeyRequest[] = [];
-        for (const key of await this.getAllOutgoingKeyRequestKeys()) {
-            const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
-            if (req.state == wantedState) {
-                reqs.push(req);
-            }
-        }
-        return reqs;
+        return this.trace("getAllOutgoingRoomKeyRequestsByState", KEY_REQUESTS, async () => {
+            const reqs = await this.getOutgoingRoomKeyRequestsByIndex(
+                this.layout.prefixOutgoingKeyRequestByState(wantedState),
+            );
+            return reqs.filter((req) => req.state == wantedState);
+        });
     }
 
     public async getOutgoingRoomKeyRequestsByTarget(
@@ -238,17 +1430,16 @@ export default class AsyncCryptoStore implements CryptoStore {
         deviceId: string,
         wantedStates: number[],
     ): Promise<OutgoingRoomKeyRequest[]> {
-        const reqs: OutgoingRoomKeyRequest[] = [];
-        for (const key of await this.getAllOutgoingKeyRequestKeys()) {
-            const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
-            if (
-                wantedStates.includes(req.state) &&
-                req.recipients.some((r) => r.userId === userId && r.deviceId === deviceId)
-            ) {
-                reqs.push(req);
-            }
-        }
-        return reqs;
+        return this.trace("getOutgoingRoomKeyRequestsByTarget", KEY_REQUESTS, async () => {
+            const reqs = await this.getOutgoingRoomKeyRequestsByIndex(
+                this.layout.prefixOutgoingKeyRequestByTarget(userId, deviceId),
+            );
+            return reqs.filter(
+                (req) =>
+                    wantedStates.includes(req.state) &&
+                    req.recipients.some((r) => r.userId === userId && r.deviceId === deviceId),
+            );
+        });
     }
 
     public async updateOutgoingRoomKeyRequest(
@@ -256,49 +1447,59 @@ export default class AsyncCryptoStore implements CryptoStore {
         expectedState: number,
         updates: Partial<OutgoingRoomKeyRequest>,
     ): Promise<OutgoingRoomKeyRequest | null> {
-        const key = keyOutgoingKeyRequest(requestId);
+        return this.trace("updateOutgoingRoomKeyRequest", KEY_REQUESTS, async () => {
+            const key = this.layout.keyOutgoingKeyRequest(requestId);
 
-        const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
-        if (!req || req.state !== expectedState) {
-            return null;
-        }
+            const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
+            if (!req || req.state !== expectedState) {
+                return null;
+            }
 
-        Object.assign(req, updates);
-        await this.setJsonItem(key, req);
-        return req;
+            const previous = { ...req };
+            Object.assign(req, updates);
+            await this.putOutgoingRoomKeyRequest(req, previous);
+            return req;
+        });
     }
 
     public async deleteOutgoingRoomKeyRequest(
         requestId: string,
         expectedState: number,
     ): Promise<OutgoingRoomKeyRequest | null> {
-        const key = keyOutgoingKeyRequest(requestId);
+        return this.trace("deleteOutgoingRoomKeyRequest", KEY_REQUESTS, async () => {
+            const key = this.layout.keyOutgoingKeyRequest(requestId);
 
-        const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
-        if (!req || req.state !== expectedState) {
-            return null;
-        }
+            const req = (await this.getJsonItem(key)) as OutgoingRoomKeyRequest;
+            if (!req || req.state !== expectedState) {
+                return null;
+            }
 
-        await this.storage.removeItem(key);
-        return req;
+            await this.removeItems([key, ...this.layout.keysOutgoingKeyRequestIndexes(req)]);
+            return req;
+        });
     }
 
     public getAccount(txn: unknown, func: (accountPickle: string | null) => void): void {
-        (txn as Transaction).execute(async () => {
-            const accountPickle = (await this.getJsonItem(KEY_END_TO_END_ACCOUNT)) as string | null;
+        this.execute(txn, "getAccount", IndexedDBCryptoStore.STORE_ACCOUNT, async () => {
+            const accountPickle = (await this.getJsonItem(this.layout.endToEndAccount, txn as Transaction)) as
+                | string
+                | null;
             func(accountPickle);
         });
     }
 
     public storeAccount(txn: unknown, accountPickle: string): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(KEY_END_TO_END_ACCOUNT, accountPickle);
+        this.execute(txn, "storeAccount", IndexedDBCryptoStore.STORE_ACCOUNT, async () => {
+            await this.setJsonItem(this.layout.endToEndAccount, accountPickle, txn as Transaction);
         });
     }
 
     public getCrossSigningKeys(txn: unknown, func: (keys: Record<string, CrossSigningKeyInfo> | null) => void): void {
-        (txn as Transaction).execute(async () => {
-            const keys = (await this.getJsonItem(KEY_CROSS_SIGNING_KEYS)) as Record<string, CrossSigningKeyInfo> | null;
+        this.execute(txn, "getCrossSigningKeys", IndexedDBCryptoStore.STORE_ACCOUNT, async () => {
+            const keys = (await this.getJsonItem(this.layout.crossSigningKeys, txn as Transaction)) as Record<
+                string,
+                CrossSigningKeyInfo
+            > | null;
             func(keys);
         });
     }
@@ -308,15 +1509,17 @@ export default class AsyncCryptoStore implements CryptoStore {
         func: (key: SecretStorePrivateKeys[K] | null) => void,
         type: K,
     ): void {
-        (txn as Transaction).execute(async () => {
-            const key = (await this.getJsonItem(keySecretStorePrivateKey(type))) as SecretStorePrivateKeys[K] | null;
+        this.execute(txn, "getSecretStorePrivateKey", IndexedDBCryptoStore.STORE_ACCOUNT, async () => {
+            const key = (await this.getJsonItem(this.layout.keySecretStorePrivateKey(type), txn as Transaction)) as
+                | SecretStorePrivateKeys[K]
+                | null;
             func(key);
         });
     }
 
     public storeCrossSigningKeys(txn: unknown, keys: Record<string, CrossSigningKeyInfo>): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(KEY_CROSS_SIGNING_KEYS, keys);
+        this.execute(txn, "storeCrossSigningKeys", IndexedDBCryptoStore.STORE_ACCOUNT, async () => {
+            await this.setJsonItem(this.layout.crossSigningKeys, keys, txn as Transaction);
         });
     }
 
@@ -325,16 +1528,14 @@ export default class AsyncCryptoStore implements CryptoStore {
         type: K,
         key: SecretStorePrivateKeys[K],
     ): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(keySecretStorePrivateKey(type), key);
+        this.execute(txn, "storeSecretStorePrivateKey", IndexedDBCryptoStore.STORE_ACCOUNT, async () => {
+            await this.setJsonItem(this.layout.keySecretStorePrivateKey(type), key, txn as Transaction);
         });
     }
 
     public countEndToEndSessions(txn: unknown, func: (count: number) => void): void {
-        (txn as Transaction).execute(async () => {
-            const keys = await this.storage.getAllKeys();
-            const count = keys.filter((k) => k.startsWith(END_TO_END_SESSION_PREFIX)).length;
-            func(count);
+        this.execute(txn, "countEndToEndSessions", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            func(await this.countKeysWithPrefix(this.layout.endToEndSessionPrefix, txn as Transaction));
         });
     }
 
@@ -344,8 +1545,11 @@ export default class AsyncCryptoStore implements CryptoStore {
         txn: unknown,
         func: (session: ISessionInfo | null) => void,
     ): void {
-        (txn as Transaction).execute(async () => {
-            const session = (await this.getJsonItem(keyEndToEndSession(deviceKey, sessionId))) as ISessionInfo | null;
+        this.execute(txn, "getEndToEndSession", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            const session = (await this.getJsonItem(
+                this.layout.keyEndToEndSession(deviceKey, sessionId),
+                txn as Transaction,
+            )) as ISessionInfo | null;
             func(session);
         });
     }
@@ -355,132 +1559,148 @@ export default class AsyncCryptoStore implements CryptoStore {
         txn: unknown,
         func: (sessions: { [sessionId: string]: ISessionInfo }) => void,
     ): void {
-        (txn as Transaction).execute(async () => {
-            const keys = await this.storage.getAllKeys();
-            const prefix = prefixEndToEndSession(deviceKey);
+        this.execute(txn, "getEndToEndSessions", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            const prefix = this.layout.prefixEndToEndSession(deviceKey);
+            const keys = await this.getKeysWithPrefix(prefix, txn as Transaction);
+            const values = (await this.getJsonItems(keys, txn as Transaction)) as ISessionInfo[];
             const sessions: { [sessionId: string]: ISessionInfo } = {};
-            for (const k of keys.filter((k) => k.startsWith(prefix))) {
-                const sessionId = decodeURIComponent(k.split("/")[2]);
-                // TODO: Can we not just use k directly here?
-                sessions[sessionId] = (await this.getJsonItem(
-                    keyEndToEndSession(deviceKey, sessionId),
-                )) as ISessionInfo;
-            }
+            keys.forEach((k, i) => {
+                const sessionId = decodeURIComponent(k.slice(prefix.length));
+                sessions[sessionId] = values[i];
+            });
             func(sessions);
         });
     }
 
     public getAllEndToEndSessions(txn: unknown, func: (session: ISessionInfo | null) => void): void {
-        (txn as Transaction).execute(async () => {
-            const keys = await this.storage.getAllKeys();
-            for (const k of keys.filter((k) => k.startsWith(END_TO_END_SESSION_PREFIX))) {
-                const deviceKey = decodeURIComponent(k.split("/")[1]);
-                const sessionId = decodeURIComponent(k.split("/")[2]);
-                // TODO: Can we not just use k directly here?
-                const sessionInfo = (await this.getJsonItem(
-                    keyEndToEndSession(deviceKey, sessionId),
-                )) as ISessionInfo | null;
-                func(sessionInfo);
+        this.execute(txn, "getAllEndToEndSessions", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            const keys = await this.getKeysWithPrefix(this.layout.endToEndSessionPrefix, txn as Transaction);
+            for (const batch of chunk(keys, SESSION_BATCH_SIZE)) {
+                const sessionInfos = (await this.getJsonItems(batch, txn as Transaction)) as (ISessionInfo | null)[];
+                sessionInfos.forEach((sessionInfo) => func(sessionInfo));
             }
         });
     }
 
     public storeEndToEndSession(deviceKey: string, sessionId: string, sessionInfo: ISessionInfo, txn: unknown): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(keyEndToEndSession(deviceKey, sessionId), sessionInfo);
+        this.execute(txn, "storeEndToEndSession", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            await this.setJsonItem(
+                this.layout.keyEndToEndSession(deviceKey, sessionId),
+                sessionInfo,
+                txn as Transaction,
+            );
         });
     }
 
     public async storeEndToEndSessionProblem(deviceKey: string, type: string, fixed: boolean): Promise<void> {
-        const key = keyEndToEndSessionProblems(deviceKey);
-        const problems = ((await this.getJsonItem(key)) || []) as IProblem[];
-        problems.push({ type, fixed, time: Date.now() });
-        problems.sort((a, b) => a.time - b.time);
-        await this.setJsonItem(key, problems);
+        return this.trace("storeEndToEndSessionProblem", SESSION_PROBLEMS, async () => {
+            const key = this.layout.keyEndToEndSessionProblems(deviceKey);
+            const problems = ((await this.getJsonItem(key)) || []) as IProblem[];
+            problems.push({ type, fixed, time: Date.now() });
+            problems.sort((a, b) => a.time - b.time);
+            await this.setJsonItem(key, problems);
+        });
     }
 
     public async getEndToEndSessionProblem(deviceKey: string, timestamp: number): Promise<IProblem | null> {
-        const key = keyEndToEndSessionProblems(deviceKey);
-        const problems = ((await this.getJsonItem(key)) || []) as IProblem[];
-        if (!problems.length) {
-            return null;
-        }
+        return this.trace("getEndToEndSessionProblem", SESSION_PROBLEMS, async () => {
+            const key = this.layout.keyEndToEndSessionProblems(deviceKey);
+            const problems = ((await this.getJsonItem(key)) || []) as IProblem[];
+            if (!problems.length) {
+                return null;
+            }
 
-        const lastProblem = problems[problems.length - 1];
+            const lastProblem = problems[problems.length - 1];
 
-        for (const problem of problems) {
-            if (problem.time > timestamp) {
-                return Object.assign({}, problem, { fixed: lastProblem.fixed });
+            for (const problem of problems) {
+                if (problem.time > timestamp) {
+                    return Object.assign({}, problem, { fixed: lastProblem.fixed });
+                }
             }
-        }
 
-        if (lastProblem.fixed) {
-            return null;
-        } else {
-            return lastProblem;
-        }
+            if (lastProblem.fixed) {
+                return null;
+            } else {
+                return lastProblem;
+            }
+        });
     }
 
     public async filterOutNotifiedErrorDevices(devices: IOlmDevice<DeviceInfo>[]): Promise<IOlmDevice<DeviceInfo>[]> {
-        const notifiedErrorDevices = ((await this.getJsonItem(KEY_NOTIFIED_ERROR_DEVICES)) || {}) as {
-            [userId: string]: { [deviceId: string]: boolean };
-        };
-
-        const ret = [];
-
-        for (const device of devices) {
-            const { userId, deviceInfo } = device;
-            if (userId in notifiedErrorDevices) {
-                if (!(deviceInfo.deviceId in notifiedErrorDevices[userId])) {
+        return this.trace("filterOutNotifiedErrorDevices", NOTIFIED_ERROR_DEVICES, async () => {
+            const notifiedErrorDevices = ((await this.getJsonItem(this.layout.notifiedErrorDevices)) || {}) as {
+                [userId: string]: { [deviceId: string]: boolean };
+            };
+
+            const ret = [];
+
+            for (const device of devices) {
+                const { userId, deviceInfo } = device;
+                if (userId in notifiedErrorDevices) {
+                    if (!(deviceInfo.deviceId in notifiedErrorDevices[userId])) {
+                        ret.push(device);
+                        notifiedErrorDevices[userId][deviceInfo.deviceId] = true;
+                    }
+                } else {
                     ret.push(device);
-                    notifiedErrorDevices[userId][deviceInfo.deviceId] = true;
+                    notifiedErrorDevices[userId] = { [deviceInfo.deviceId]: true };
                 }
-            } else {
-                ret.push(device);
-                notifiedErrorDevices[userId] = { [deviceInfo.deviceId]: true };
             }
-        }
 
-        await this.setJsonItem(KEY_NOTIFIED_ERROR_DEVICES, notifiedErrorDevices);
+            await this.setJsonItem(this.layout.notifiedErrorDevices, notifiedErrorDevices);
 
-        return ret;
+            return ret;
+        });
     }
 
-    public async getEndToEndSessionsBatch(): Promise<ISessionInfo[] | null> {
-        const keys = (await this.storage.getAllKeys()).filter((k) => k.startsWith(END_TO_END_SESSION_PREFIX));
-
-        const result: ISessionInfo[] = [];
-
-        for (const k of keys) {
-            const session = (await this.getJsonItem(k)) as ISessionInfo | null;
-            if (!session) {
-                console.error(`Could not find session ${k}`);
-                continue;
-            }
-
-            result.push(session);
-
-            if (result.length >= SESSION_BATCH_SIZE) {
-                return result;
-            }
-        }
-
-        if (result.length === 0) {
-            return null;
-        }
+    /**
+     * Reads a page of the Olm sessions, in a stable order. Unlike {@link AsyncCryptoStore#getEndToEndSessionsBatch},
+     * this picks up after the previous page, whether or not its sessions have been deleted since.
+     *
+     * @param cursor - The cursor returned with the previous page, or null for the first page.
+     * @param limit - The number of sessions to read.
+     */
+    public async getEndToEndSessionsPage(
+        cursor: string | null,
+        limit = SESSION_BATCH_SIZE,
+    ): Promise<SessionPage<ISessionInfo>> {
+        return this.trace("getEndToEndSessionsPage", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            const page = await this.readPage(this.layout.endToEndSessionPrefix, cursor, limit);
+            return { ...page, sessions: page.sessions.map(([, session]) => session as ISessionInfo) };
+        });
+    }
 
-        return result; // We found fewer sessions than the batch size
+    public async getEndToEndSessionsBatch(): Promise<ISessionInfo[] | null> {
+        return this.trace("getEndToEndSessionsBatch", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            const result: ISessionInfo[] = [];
+            let cursor: string | null = null;
+            do {
+                const page: SessionPage<ISessionInfo> = await this.getEndToEndSessionsPage(
+                    cursor,
+                    SESSION_BATCH_SIZE - result.length,
+                );
+                result.push(...page.sessions);
+                this.skipUnreadableSessions(this.layout.endToEndSessionPrefix, page.unreadable);
+                cursor = page.cursor;
+            } while (cursor !== null && result.length < SESSION_BATCH_SIZE);
+
+            return result.length === 0 ? null : result;
+        });
     }
 
     public async deleteEndToEndSessionsBatch(
         sessions: { deviceKey?: string | undefined; sessionId?: string | undefined }[],
     ): Promise<void> {
-        for (const { deviceKey, sessionId } of sessions) {
-            if (deviceKey === undefined || sessionId === undefined) {
-                continue;
+        return this.trace("deleteEndToEndSessionsBatch", IndexedDBCryptoStore.STORE_SESSIONS, async () => {
+            const keys: string[] = [];
+            for (const { deviceKey, sessionId } of sessions) {
+                if (deviceKey === undefined || sessionId === undefined) {
+                    continue;
+                }
+                keys.push(this.layout.keyEndToEndSession(deviceKey, sessionId));
             }
-            await this.storage.removeItem(keyEndToEndSession(deviceKey, sessionId));
-        }
+            await this.removeItems([...keys, ...this.takeUnreadableSessionKeys(this.layout.endToEndSessionPrefix)]);
+        });
     }
 
     public getEndToEndInboundGroupSession(
@@ -489,35 +1709,45 @@ export default class AsyncCryptoStore implements CryptoStore {
         txn: unknown,
         func: (groupSession: InboundGroupSessionData | null, groupSessionWithheld: IWithheld | null) => void,
     ): void {
-        (txn as Transaction).execute(async () => {
-            const groupSession = (await this.getJsonItem(
-                keyEndToEndInboundGroupSession(senderCurve25519Key, sessionId),
-            )) as InboundGroupSessionData | null;
-            const groupSessionWithheld = (await this.getJsonItem(
-                keyEndToEndInboundGroupSessionWithheld(senderCurve25519Key, sessionId),
-            )) as IWithheld | null;
-            func(groupSession, groupSessionWithheld);
-        });
+        this.execute(
+            txn,
+            "getEndToEndInboundGroupSession",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                const groupSession = (await this.getJsonItem(
+                    this.layout.keyEndToEndInboundGroupSession(senderCurve25519Key, sessionId),
+                    txn as Transaction,
+                )) as InboundGroupSessionData | null;
+                const groupSessionWithheld = (await this.getJsonItem(
+                    this.layout.keyEndToEndInboundGroupSessionWithheld(senderCurve25519Key, sessionId),
+                    txn as Transaction,
+                )) as IWithheld | null;
+                func(groupSession, groupSessionWithheld);
+            },
+        );
     }
 
     public getAllEndToEndInboundGroupSessions(txn: unknown, func: (session: ISession | null) => void): void {
-        (txn as Transaction).execute(async () => {
-            const keys = (await this.storage.getAllKeys()).filter((k) => k.startsWith(INBOUND_SESSION_PREFIX));
-
-            for (const k of keys) {
-                const keyParts = k.split("/");
-                const senderKey = decodeURIComponent(keyParts[1]);
-                const sessionId = decodeURIComponent(keyParts[2]);
-                const sessionData = (await this.getJsonItem(k)) as InboundGroupSessionData;
-                func({
-                    senderKey,
-                    sessionId,
-                    sessionData,
-                });
-            }
+        this.execute(
+            txn,
+            "getAllEndToEndInboundGroupSessions",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                const keys = await this.getKeysWithPrefix(this.layout.inboundSessionPrefix, txn as Transaction);
+
+                for (const batch of chunk(keys, SESSION_BATCH_SIZE)) {
+                    const values = (await this.getJsonItems(batch, txn as Transaction)) as InboundGroupSessionData[];
+                    batch.forEach((k, i) => {
+                        func({
+                            ...this.layout.parseEndToEndInboundGroupSessionKey(k),
+                            sessionData: values[i],
+                        });
+                    });
+                }
 
-            func(null);
-        });
+                func(null);
+            },
+        );
     }
 
     public addEndToEndInboundGroupSession(
@@ -526,12 +1756,20 @@ export default class AsyncCryptoStore implements CryptoStore {
         sessionData: InboundGroupSessionData,
         txn: unknown,
     ): void {
-        (txn as Transaction).execute(async () => {
-            const existing = await this.getJsonItem(keyEndToEndInboundGroupSession(senderCurve25519Key, sessionId));
-            if (!existing) {
-                await this.storeEndToEndInboundGroupSession(senderCurve25519Key, sessionId, sessionData, txn);
-            }
-        });
+        this.execute(
+            txn,
+            "addEndToEndInboundGroupSession",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                const existing = await this.getJsonItem(
+                    this.layout.keyEndToEndInboundGroupSession(senderCurve25519Key, sessionId),
+                    txn as Transaction,
+                );
+                if (!existing) {
+                    await this.storeEndToEndInboundGroupSession(senderCurve25519Key, sessionId, sessionData, txn);
+                }
+            },
+        );
     }
 
     public storeEndToEndInboundGroupSession(
@@ -540,9 +1778,18 @@ export default class AsyncCryptoStore implements CryptoStore {
         sessionData: InboundGroupSessionData,
         txn: unknown,
     ): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(keyEndToEndInboundGroupSession(senderCurve25519Key, sessionId), sessionData);
-        });
+        this.execute(
+            txn,
+            "storeEndToEndInboundGroupSession",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                await this.setJsonItem(
+                    this.layout.keyEndToEndInboundGroupSession(senderCurve25519Key, sessionId),
+                    sessionData,
+                    txn as Transaction,
+                );
+            },
+        );
     }
 
     public storeEndToEndInboundGroupSessionWithheld(
@@ -551,143 +1798,235 @@ export default class AsyncCryptoStore implements CryptoStore {
         sessionData: IWithheld,
         txn: unknown,
     ): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(keyEndToEndInboundGroupSessionWithheld(senderCurve25519Key, sessionId), sessionData);
-        });
+        this.execute(
+            txn,
+            "storeEndToEndInboundGroupSessionWithheld",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS_WITHHELD,
+            async () => {
+                await this.setJsonItem(
+                    this.layout.keyEndToEndInboundGroupSessionWithheld(senderCurve25519Key, sessionId),
+                    sessionData,
+                    txn as Transaction,
+                );
+            },
+        );
     }
 
     public async countEndToEndInboundGroupSessions(): Promise<number> {
-        return (await this.storage.getAllKeys()).filter((k) => k.startsWith(INBOUND_SESSION_PREFIX)).length;
+        return this.trace(
+            "countEndToEndInboundGroupSessions",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                return this.countKeysWithPrefix(this.layout.inboundSessionPrefix);
+            },
+        );
     }
 
-    public async getEndToEndInboundGroupSessionsBatch(): Promise<SessionExtended[] | null> {
-        const keys = (await this.storage.getAllKeys()).filter((k) => k.startsWith(INBOUND_SESSION_PREFIX));
-
-        const result: SessionExtended[] = [];
-
-        for (const k of keys) {
-            const keyParts = k.split("/");
-            const senderKey = decodeURIComponent(keyParts[1]);
-            const sessionId = decodeURIComponent(keyParts[2]);
-            const sessionData = (await this.getJsonItem(k)) as InboundGroupSessionData;
-
-            result.push({
-                senderKey,
-                sessionId,
-                sessionData,
-                needsBackup: k in this.getSessionsNeedingBackup(0),
-            });
-
-            if (result.length >= SESSION_BATCH_SIZE) {
-                return result;
-            }
-        }
-
-        if (result.length === 0) {
-            return null;
-        }
+    /**
+     * Reads a page of the inbound group sessions, in a stable order, like
+     * {@link AsyncCryptoStore#getEndToEndSessionsPage}.
+     */
+    public async getEndToEndInboundGroupSessionsPage(
+        cursor: string | null,
+        limit = SESSION_BATCH_SIZE,
+    ): Promise<SessionPage<SessionExtended>> {
+        return this.trace(
+            "getEndToEndInboundGroupSessionsPage",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                const page = await this.readPage(this.layout.inboundSessionPrefix, cursor, limit);
+                const index = await this.getKeyIndex();
+                return {
+                    ...page,
+                    sessions: page.sessions.map(([k, sessionData]) => {
+                        const { senderKey, sessionId } = this.layout.parseEndToEndInboundGroupSessionKey(k);
+                        return {
+                            senderKey,
+                            sessionId,
+                            sessionData: sessionData as InboundGroupSessionData,
+                            needsBackup: index.has(this.layout.keyBackupMarker(senderKey, sessionId)),
+                        };
+                    }),
+                };
+            },
+        );
+    }
 
-        return result; // We found fewer sessions than the batch size
+    public async getEndToEndInboundGroupSessionsBatch(): Promise<SessionExtended[] | null> {
+        return this.trace(
+            "getEndToEndInboundGroupSessionsBatch",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                const result: SessionExtended[] = [];
+                let cursor: string | null = null;
+                do {
+                    const page: SessionPage<SessionExtended> = await this.getEndToEndInboundGroupSessionsPage(
+                        cursor,
+                        SESSION_BATCH_SIZE - result.length,
+                    );
+                    result.push(...page.sessions);
+                    this.skipUnreadableSessions(this.layout.inboundSessionPrefix, page.unreadable);
+                    cursor = page.cursor;
+                } while (cursor !== null && result.length < SESSION_BATCH_SIZE);
+
+                return result.length === 0 ? null : result;
+            },
+        );
     }
 
     public async deleteEndToEndInboundGroupSessionsBatch(
         sessions: { senderKey: string; sessionId: string }[],
     ): Promise<void> {
-        for (const { senderKey, sessionId } of sessions) {
-            await this.storage.removeItem(keyEndToEndInboundGroupSession(senderKey, sessionId));
-        }
+        return this.trace(
+            "deleteEndToEndInboundGroupSessionsBatch",
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            async () => {
+                await this.unmarkSessionsNeedingBackup(sessions);
+                await this.removeItems([
+                    ...sessions.map(({ senderKey, sessionId }) =>
+                        this.layout.keyEndToEndInboundGroupSession(senderKey, sessionId),
+                    ),
+                    ...this.takeUnreadableSessionKeys(this.layout.inboundSessionPrefix),
+                ]);
+            },
+        );
     }
 
     public getEndToEndDeviceData(txn: unknown, func: (deviceData: IDeviceData | null) => void): void {
-        (txn as Transaction).execute(async () => {
-            func((await this.getJsonItem(KEY_DEVICE_DATA)) as IDeviceData | null);
+        this.execute(txn, "getEndToEndDeviceData", IndexedDBCryptoStore.STORE_DEVICE_DATA, async () => {
+            func((await this.getJsonItem(this.layout.deviceData, txn as Transaction)) as IDeviceData | null);
         });
     }
 
     public storeEndToEndDeviceData(deviceData: IDeviceData, txn: unknown): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(KEY_DEVICE_DATA, deviceData);
+        this.execute(txn, "storeEndToEndDeviceData", IndexedDBCryptoStore.STORE_DEVICE_DATA, async () => {
+            await this.setJsonItem(this.layout.deviceData, deviceData, txn as Transaction);
         });
     }
 
     public storeEndToEndRoom(roomId: string, roomInfo: IRoomEncryption, txn: unknown): void {
-        (txn as Transaction).execute(async () => {
-            await this.setJsonItem(keyEndToEndRoom(roomId), roomInfo);
+        this.execute(txn, "storeEndToEndRoom", IndexedDBCryptoStore.STORE_ROOMS, async () => {
+            await this.setJsonItem(this.layout.keyEndToEndRoom(roomId), roomInfo, txn as Transaction);
         });
     }
 
     public getEndToEndRooms(txn: unknown, func: (rooms: Record<string, IRoomEncryption>) => void): void {
-        (txn as Transaction).execute(async () => {
-            const keys = (await this.storage.getAllKeys()).filter((k) => k.startsWith(ROOMS_PREFIX));
+        this.execute(txn, "getEndToEndRooms", IndexedDBCryptoStore.STORE_ROOMS, async () => {
+            const keys = await this.getKeysWithPrefix(this.layout.roomsPrefix, txn as Transaction);
+            const values = (await this.getJsonItems(keys, txn as Transaction)) as IRoomEncryption[];
             const result: Record<string, IRoomEncryption> = {};
-            for (const k of keys) {
-                const roomId = k.slice(ROOMS_PREFIX.length);
-                result[roomId] = (await this.getJsonItem(k)) as IRoomEncryption;
-            }
+            keys.forEach((k, i) => {
+                const roomId = decodeURIComponent(k.slice(this.layout.roomsPrefix.length));
+                result[roomId] = values[i];
+            });
             func(result);
         });
     }
 
     public async getSessionsNeedingBackup(limit: number): Promise<ISession[]> {
-        const sessionsNeedingBackup = ((await this.getJsonItem(KEY_SESSIONS_NEEDING_BACKUP)) || {}) as {
-            [sessionKey: string]: boolean;
-        };
-        const sessions: ISession[] = [];
-
-        for (const k of Object.keys(sessionsNeedingBackup)) {
-            const keyParts = k.split("/");
-            const senderKey = decodeURIComponent(keyParts[0]);
-            const sessionId = decodeURIComponent(keyParts[1]);
-
-            const sessionData = (await this.getJsonItem(
-                keyEndToEndInboundGroupSession(senderKey, sessionId),
-            )) as InboundGroupSessionData | null;
-            if (!sessionData) {
-                console.error(`Could not find session data for inbound group session with ${sessionId}`);
-                continue;
-            }
-
-            sessions.push({ senderKey, sessionId, sessionData });
-
-            if (limit && sessions.length >= limit) {
-                break;
+        return this.trace("getSessionsNeedingBackup", IndexedDBCryptoStore.STORE_BACKUP, async () => {
+            const queueKeys = (await this.getKeysWithPrefix(this.layout.backupQueuePrefix)).sort();
+            const sessions: ISession[] = [];
+
+            for (const batch of chunk(queueKeys, SESSION_BATCH_SIZE)) {
+                const entries = (await this.getJsonItems(batch)) as ([senderKey: string, sessionId: string] | null)[];
+                const queued = entries.filter((e): e is [string, string] => e !== null);
+                const sessionDatas = (await this.getJsonItems(
+                    queued.map(([senderKey, sessionId]) =>
+                        this.layout.keyEndToEndInboundGroupSession(senderKey, sessionId),
+                    ),
+                )) as (InboundGroupSessionData | null)[];
+
+                for (const [i, [senderKey, sessionId]] of queued.entries()) {
+                    const sessionData = sessionDatas[i];
+                    if (!sessionData) {
+                        this.logger.error(`Could not find session data for inbound group session with ${sessionId}`);
+                        continue;
+                    }
+
+                    sessions.push({ senderKey, sessionId, sessionData });
+
+                    if (limit && sessions.length >= limit) {
+                        return sessions;
+                    }
+                }
             }
-        }
 
-        return sessions;
+            return sessions;
+        });
     }
 
     public async countSessionsNeedingBackup(txn?: unknown): Promise<number> {
-        // TODO: How to handle txn here?
-        const sessionsNeedingBackup = ((await this.getJsonItem(KEY_SESSIONS_NEEDING_BACKUP)) || {}) as {
-            [sessionKey: string]: boolean;
-        };
-        return Object.keys(sessionsNeedingBackup).length;
+        return this.trace("countSessionsNeedingBackup", IndexedDBCryptoStore.STORE_BACKUP, async () => {
+            return this.runInOptionalTxn(txn, async (txn) => {
+                return this.countKeysWithPrefix(this.layout.backupMarkerPrefix, txn);
+            });
+        });
     }
 
     public async unmarkSessionsNeedingBackup(sessions: ISession[], txn?: unknown): Promise<void> {
-        // TODO: How to handle txn here?
-        const sessionsNeedingBackup = ((await this.getJsonItem(KEY_SESSIONS_NEEDING_BACKUP)) || {}) as {
-            [sessionKey: string]: boolean;
-        };
-        for (const session of sessions) {
-            delete sessionsNeedingBackup[
-                encodeURIComponent(session.senderKey) + "/" + encodeURIComponent(session.sessionId)
-            ];
+        this.assertWritable("unmarkSessionsNeedingBackup");
+        if (!txn) {
+            return this.doTxn("readwrite", [IndexedDBCryptoStore.STORE_BACKUP], (txn) =>
+                this.unmarkSessionsNeedingBackup(sessions, txn),
+            );
         }
-        await this.setJsonItem(KEY_SESSIONS_NEEDING_BACKUP, sessionsNeedingBackup);
+        await (txn as Transaction).run(() =>
+            this.trace("unmarkSessionsNeedingBackup", IndexedDBCryptoStore.STORE_BACKUP, async () => {
+                const markerKeys = sessions.map((s) => this.layout.keyBackupMarker(s.senderKey, s.sessionId));
+                const positions = (await this.getJsonItems(markerKeys, txn as Transaction)) as (number | null)[];
+                for (const [i, position] of positions.entries()) {
+                    if (position !== null) {
+                        (txn as Transaction).removeItem(markerKeys[i]);
+                        (txn as Transaction).removeItem(this.layout.keyBackupQueueEntry(position));
+                    }
+                }
+            }),
+        );
     }
 
     public async markSessionsNeedingBackup(sessions: ISession[], txn?: unknown): Promise<void> {
-        // TODO: How to handle txn here?
-        const sessionsNeedingBackup = ((await this.getJsonItem(KEY_SESSIONS_NEEDING_BACKUP)) || {}) as {
-            [sessionKey: string]: boolean;
-        };
-        for (const session of sessions) {
-            sessionsNeedingBackup[encodeURIComponent(session.senderKey) + "/" + encodeURIComponent(session.sessionId)] =
-                true;
+        this.assertWritable("markSessionsNeedingBackup");
+        // Without a transaction of the caller's, use one of our own, so that concurrent calls can't both queue the
+        // same session.
+        if (!txn) {
+            return this.doTxn("readwrite", [IndexedDBCryptoStore.STORE_BACKUP], (txn) =>
+                this.markSessionsNeedingBackup(sessions, txn),
+            );
         }
-        await this.setJsonItem(KEY_SESSIONS_NEEDING_BACKUP, sessionsNeedingBackup);
+        await (txn as Transaction).run(() =>
+            this.trace("markSessionsNeedingBackup", IndexedDBCryptoStore.STORE_BACKUP, async () => {
+                const index = await this.getKeyIndex();
+                for (const { senderKey, sessionId } of sessions) {
+                    const markerKey = this.layout.keyBackupMarker(senderKey, sessionId);
+                    const pending = (txn as Transaction).getPendingItem(markerKey);
+                    // Sessions that are already queued keep their place.
+                    if (pending === undefined ? index.has(markerKey) : pending !== null) {
+                        continue;
+                    }
+                    const position = this.nextBackupQueuePosition(index);
+                    (txn as Transaction).setItem(markerKey, JSON.stringify(position));
+                    (txn as Transaction).setItem(
+                        this.layout.keyBackupQueueEntry(position),
+                        JSON.stringify([senderKey, sessionId]),
+                    );
+                }
+            }),
+        );
+    }
+
+    /**
+     * Hands out the next position in the backup queue. This is synchronous, so that concurrent callers never get the
+     * same position.
+     */
+    private nextBackupQueuePosition(index: KeyIndex): number {
+        if (this.backupQueueEnd === null) {
+            const positions = index
+                .getKeysWithPrefix(this.layout.backupQueuePrefix)
+                .map((k) => this.layout.parseBackupQueuePosition(k));
+            this.backupQueueEnd = Math.max(-1, ...positions) + 1;
+        }
+        return this.backupQueueEnd++;
     }
 
     public async addSharedHistoryInboundGroupSession(
@@ -696,51 +2035,478 @@ export default class AsyncCryptoStore implements CryptoStore {
         sessionId: string,
         txn?: unknown,
     ): Promise<void> {
-        // TODO: How to handle txn here?
-        const key = keySharedHistoryInboundGroupSessions(roomId);
-        const sessions = ((await this.getJsonItem(key)) ?? []) as [senderKey: string, sessionId: string][];
-        sessions.push([senderKey, sessionId]);
-        await this.setJsonItem(key, sessions);
+        return this.trace(
+            "addSharedHistoryInboundGroupSession",
+            IndexedDBCryptoStore.STORE_SHARED_HISTORY_INBOUND_GROUP_SESSIONS,
+            async () => {
+                await this.runInOptionalTxn(txn, async (txn) => {
+                    const key = this.layout.keySharedHistoryInboundGroupSessions(roomId);
+                    const sessions = ((await this.getJsonItem(key, txn)) ?? []) as [
+                        senderKey: string,
+                        sessionId: string,
+                    ][];
+                    sessions.push([senderKey, sessionId]);
+                    await this.setJsonItem(key, sessions, txn);
+                });
+            },
+        );
     }
 
     public async getSharedHistoryInboundGroupSessions(
         roomId: string,
         txn?: unknown,
     ): Promise<[senderKey: string, sessionId: string][]> {
-        // TODO: How to handle txn here?
-        const sessions = ((await this.getJsonItem(keySharedHistoryInboundGroupSessions(roomId))) ?? []) as [
-            senderKey: string,
-            sessionId: string,
-        ][];
-        return sessions;
+        return this.trace(
+            "getSharedHistoryInboundGroupSessions",
+            IndexedDBCryptoStore.STORE_SHARED_HISTORY_INBOUND_GROUP_SESSIONS,
+            async () => {
+                return this.runInOptionalTxn(txn, async (txn) => {
+                    const sessions = ((await this.getJsonItem(
+                        this.layout.keySharedHistoryInboundGroupSessions(roomId),
+                        txn,
+                    )) ?? []) as [senderKey: string, sessionId: string][];
+                    return sessions;
+                });
+            },
+        );
     }
 
     public async addParkedSharedHistory(roomId: string, data: ParkedSharedHistory, txn?: unknown): Promise<void> {
-        // TODO: How to handle txn here?
-        const parked = ((await this.getJsonItem(keyParkedSharedHistory(roomId))) ?? []) as ParkedSharedHistory[];
-        parked.push(data);
-        await this.setJsonItem(keyParkedSharedHistory(roomId), parked);
+        return this.trace("addParkedSharedHistory", IndexedDBCryptoStore.STORE_PARKED_SHARED_HISTORY, async () => {
+            await this.runInOptionalTxn(txn, async (txn) => {
+                const key = this.layout.keyParkedSharedHistory(roomId);
+                const parked = ((await this.getJsonItem(key, txn)) ?? []) as ParkedSharedHistory[];
+                parked.push(data);
+                await this.setJsonItem(key, parked, txn);
+            });
+        });
     }
 
     public async takeParkedSharedHistory(roomId: string, txn?: unknown): Promise<ParkedSharedHistory[]> {
-        // TODO: How to handle txn here?
-        const key = keyParkedSharedHistory(roomId);
-        const parked = ((await this.getJsonItem(key)) ?? []) as ParkedSharedHistory[];
-        await this.storage.removeItem(key);
-        return parked;
+        return this.trace("takeParkedSharedHistory", IndexedDBCryptoStore.STORE_PARKED_SHARED_HISTORY, async () => {
+            return this.runInOptionalTxn(txn, async (txn) => {
+                const key = this.layout.keyParkedSharedHistory(roomId);
+                const parked = ((await this.getJsonItem(key, txn)) ?? []) as ParkedSharedHistory[];
+                await this.removeItem(key, txn);
+                return parked;
+            });
+        });
+    }
+
+    /**
+     * Reads the shared history parked for every room, leaving it in the store.
+     *
+     * @returns the parked history of each room that has some, by room ID.
+     */
+    public async getAllParkedSharedHistory(): Promise<Map<string, ParkedSharedHistory[]>> {
+        return this.trace("getAllParkedSharedHistory", IndexedDBCryptoStore.STORE_PARKED_SHARED_HISTORY, async () => {
+            const prefix = this.layout.parkedSharedHistoryPrefix;
+            const keys = await this.getKeysWithPrefix(prefix);
+            const values = (await this.getJsonItems(keys)) as (ParkedSharedHistory[] | null)[];
+            const result = new Map<string, ParkedSharedHistory[]>();
+            keys.forEach((k, i) => {
+                const parked = values[i];
+                if (parked && parked.length > 0) {
+                    result.set(decodeURIComponent(k.slice(prefix.length)), parked);
+                }
+            });
+            return result;
+        });
     }
 
-    public doTxn<T>(
+    public async doTxn<T>(
         mode: Mode,
         stores: Iterable<string>,
         func: (txn: unknown) => T,
         log?: Logger | undefined,
     ): Promise<T> {
-        const txn = new Transaction();
-        const promise = txn.getPromise();
-        const result = func(txn);
-        return promise.then(() => {
+        const storeNames = [...stores];
+        const start = Date.now();
+        const locked = mode === "readwrite" && this.lock !== null;
+        let release: (() => void) | null = null;
+        try {
+            if (locked) {
+                await this.lock!.acquire();
+            }
+            release = await this.scheduler.acquire(mode, storeNames);
+            await this.catchUpWithOtherContexts();
+            const txn = new Transaction(mode, (writes) => this.commitWrites(writes));
+            const promise = txn.getPromise();
+            let result: T;
+            try {
+                result = func(txn);
+            } catch (e) {
+                txn.abort(e);
+                await promise;
+                throw e;
+            }
+            txn.onCallbackReturned();
+            await promise;
+            this.report({
+                kind: "transaction",
+                method: "doTxn",
+                category: null,
+                mode,
+                stores: storeNames,
+                duration: Date.now() - start,
+                outcome: "success",
+            });
             return result;
+        } catch (e) {
+            const duration = Date.now() - start;
+            (log ?? this.logger).error(
+                `Failed ${mode} crypto store transaction in ${storeNames.join(", ") || "all stores"}, took ${duration} ms`,
+                e,
+            );
+            this.report({
+                kind: "transaction",
+                method: "doTxn",
+                category: null,
+                mode,
+                stores: storeNames,
+                duration,
+                outcome: "error",
+                error: e,
+            });
+            throw e;
+        } finally {
+            // The transaction's scope is free once it has committed, even if `result` is a promise that has yet to
+            // settle: it may be waiting on another transaction over the same stores.
+            release?.();
+            await this.announceChanges();
+            if (locked) {
+                await this.lock!.release();
+            }
+        }
+    }
+
+    /**
+     * @returns which JS context holds the lock of the store, or null if none does. See
+     *     {@link AsyncCryptoStoreOpts#lock}.
+     */
+    public async getLockHolder(): Promise<LockHolder | null> {
+        return this.trace("getLockHolder", null, async () => {
+            return (this.lock ?? new StoreLock(this.storage, this.layout.lock)).getHolder();
         });
     }
+
+    /**
+     * @returns the hits and misses of the read cache, or null if the store has none. See
+     *     {@link AsyncCryptoStoreOpts#readCacheSize}.
+     */
+    public getReadCacheStats(): LruCacheStats | null {
+        return this.readCache?.getStats() ?? null;
+    }
+
+    // Archives
+
+    /**
+     * Serializes the whole store to a passphrase-encrypted archive, e.g. to move it to a new device.
+     *
+     * @param passphrase - The passphrase to encrypt the archive with.
+     * @param opts - Further options for the archive.
+     * @returns the archive, which can be passed to {@link AsyncCryptoStore#importArchive}.
+     */
+    public async exportArchive(passphrase: string, opts?: ArchiveOpts): Promise<string> {
+        return this.trace("exportArchive", null, async () => {
+            const keys = (await this.getKeysWithPrefix(this.layout.root)).filter(
+                (k) =>
+                    !k.startsWith(this.layout.chunksPrefix) &&
+                    !this.layout.isSharingKey(k) &&
+                    k !== this.layout.importPending,
+            );
+            const values = await this.getItems(keys);
+            const entries: [string, string][] = [];
+            keys.forEach((key, i) => {
+                const value = values[i];
+                if (value !== null) {
+                    entries.push([key.slice(this.layout.root.length), value]);
+                }
+            });
+            return encryptArchive(entries, passphrase, opts);
+        });
+    }
+
+    /**
+     * Restores an archive made by {@link AsyncCryptoStore#exportArchive} into this store, which must be empty, or hold
+     * what an interrupted import left behind. Archives from older versions are brought up to date with the usual
+     * schema migrations.
+     *
+     * @param archive - The archive.
+     * @param passphrase - The passphrase the archive was encrypted with.
+     * @throws if the store is not empty, or the archive has an unsupported version or fails its integrity check.
+     */
+    public async importArchive(archive: string, passphrase: string): Promise<void> {
+        return this.trace("importArchive", null, async () => {
+            // A store that has been started but holds no data yet still counts as empty.
+            const bookkeepingKeys = [this.layout.storeCreated, this.layout.schemaVersion];
+            const keys = await this.getKeysWithPrefix(this.layout.root);
+            const interrupted = keys.includes(this.layout.importPending);
+            if (!interrupted && keys.some((k) => !bookkeepingKeys.includes(k) && !this.layout.isSharingKey(k))) {
+                throw new Error("Can only import a crypto store archive into an empty store");
+            }
+
+            const entries = await decryptArchive(archive, passphrase);
+            // The entries are written in several batches, so mark the store until they all have been.
+            await this.setJsonItem(this.layout.importPending, Date.now());
+            // The archive's own schema version, if it has one, says which migrations its entries need.
+            // The lock and the last change belong to the contexts sharing the store, not to the data.
+            await this.removeItems(keys.filter((k) => !this.layout.isSharingKey(k) && k !== this.layout.importPending));
+            for (const batch of chunk(entries, SESSION_BATCH_SIZE)) {
+                await this.setItems(batch.map(([key, value]): [string, string] => [this.layout.root + key, value]));
+            }
+            await this.migrateSchema();
+            await this.removeItems([this.layout.importPending]);
+        });
+    }
+
+    // Pruning
+
+    /**
+     * Removes records that are no longer of any use, as chosen by `rules`. This runs as a transaction over the whole
+     * store, so that it doesn't race with other transactions.
+     *
+     * @param rules - What to remove. By default, every kind of stale record is removed.
+     * @returns what was removed.
+     */
+    public async pruneStaleRecords(rules: PruneRules = {}): Promise<PruneReport> {
+        return this.trace("pruneStaleRecords", null, async () => {
+            return this.doTxn("readwrite", [], (txn) =>
+                (txn as Transaction).run(() => this.pruneInTxn(rules, txn as Transaction)),
+            );
+        });
+    }
+
+    /**
+     * Calls {@link AsyncCryptoStore#pruneStaleRecords} every `interval` milliseconds.
+     *
+     * @param interval - The time between two runs, in milliseconds.
+     * @param rules - What to remove.
+     * @param onReport - Called with what each run removed.
+     * @returns a function that stops pruning.
+     */
+    public schedulePruning(interval: number, rules?: PruneRules, onReport?: (report: PruneReport) => void): () => void {
+        this.assertWritable("schedulePruning");
+        const timer = setInterval(() => {
+            this.pruneStaleRecords(rules).then(onReport, (e) =>
+                this.logger.error("Failed to prune the crypto store", e),
+            );
+        }, interval);
+        return () => clearInterval(timer);
+    }
+
+    /**
+     * Removes the sent key requests for sessions that we know from their first message on.
+     *
+     * @returns the IDs of the removed requests.
+     */
+    private async pruneKeyRequestsInTxn(
+        index: KeyIndex,
+        olm: OlmLike,
+        pickleKey: string | undefined,
+        txn: Transaction,
+    ): Promise<string[]> {
+        const keys = index.getKeysWithPrefix(this.layout.outgoingKeyRequestPrefix);
+        const requests = (await this.getJsonItems(keys, txn)) as (OutgoingRoomKeyRequest | null)[];
+        // Whether each session is known from its first message on, by the key of the session.
+        const complete = new Map<string, boolean>();
+        const removed: string[] = [];
+        for (const [i, request] of requests.entries()) {
+            // Requests that are still to be sent or cancelled are left to the request manager.
+            if (request?.state !== RoomKeyRequestState.Sent) {
+                continue;
+            }
+            const body = request.requestBody;
+            const sessionKey = this.layout.keyEndToEndInboundGroupSession(body.sender_key, body.session_id);
+            if (!complete.has(sessionKey)) {
+                const session = index.has(sessionKey)
+                    ? ((await this.getJsonItem(sessionKey, txn)) as InboundGroupSessionData | null)
+                    : null;
+                complete.set(sessionKey, !!session && this.isKnownFromFirstMessage(session, olm, pickleKey));
+            }
+            if (complete.get(sessionKey)) {
+                txn.removeItem(keys[i]);
+                this.layout.keysOutgoingKeyRequestIndexes(request).forEach((k) => txn.removeItem(k));
+                removed.push(request.requestId);
+            }
+        }
+        return removed;
+    }
+
+    private isKnownFromFirstMessage(session: InboundGroupSessionData, olm: OlmLike, pickleKey?: string): boolean {
+        try {
+            return getFirstKnownIndex(olm, session.session, pickleKey) === 0;
+        } catch (e) {
+            this.logger.warn("Can't read the first known index of an inbound group session", e);
+            return false;
+        }
+    }
+
+    private async pruneInTxn(rules: PruneRules, txn: Transaction): Promise<PruneReport> {
+        const report: PruneReport = {
+            keyRequests: [],
+            withheld: [],
+            sessionProblems: 0,
+            notifiedErrorDevices: [],
+            staleChunks: 0,
+        };
+        const index = await this.getKeyIndex();
+
+        if (rules.keyRequestsForKnownSessions ?? true) {
+            const olm = getOlm(rules.olm);
+            if (olm) {
+                report.keyRequests = await this.pruneKeyRequestsInTxn(index, olm, rules.pickleKey, txn);
+            } else {
+                this.logger.warn("Olm is not available, so no key requests are pruned");
+            }
+        }
+
+        if (rules.withheldForKnownSessions ?? true) {
+            for (const key of index.getKeysWithPrefix(this.layout.inboundSessionWithheldPrefix)) {
+                const sessionKey =
+                    this.layout.inboundSessionPrefix + key.slice(this.layout.inboundSessionWithheldPrefix.length);
+                if (index.has(sessionKey)) {
+                    txn.removeItem(key);
+                    report.withheld.push(this.layout.parseEndToEndInboundGroupSessionKey(sessionKey));
+                }
+            }
+        }
+
+        const maxAge =
+            rules.sessionProblemMaxAge === undefined ? DEFAULT_SESSION_PROBLEM_MAX_AGE : rules.sessionProblemMaxAge;
+        if (maxAge !== null) {
+            const cutoff = Date.now() - maxAge;
+            const keys = index.getKeysWithPrefix(this.layout.endToEndSessionProblemsPrefix);
+            const problemLists = (await this.getJsonItems(keys, txn)) as (IProblem[] | null)[];
+            for (const [i, problems] of problemLists.entries()) {
+                if (!problems) {
+                    continue;
+                }
+                // Problems are kept in time order, and the last one says whether the device's problems are fixed.
+                const kept = problems.filter((p, j) => p.time >= cutoff || j === problems.length - 1);
+                if (kept.length < problems.length) {
+                    txn.setItem(keys[i], JSON.stringify(kept));
+                    report.sessionProblems += problems.length - kept.length;
+                }
+            }
+        }
+
+        if (rules.notifiedErrorDevicesNotInDeviceList ?? true) {
+            const deviceData = (await this.getJsonItem(this.layout.deviceData, txn)) as IDeviceData | null;
+            const notified = (await this.getJsonItem(this.layout.notifiedErrorDevices, txn)) as Record<
+                string,
+                Record<string, boolean>
+            > | null;
+            // Without a device list, there's no telling which devices still exist.
+            if (deviceData && notified) {
+                for (const userId of Object.keys(notified)) {
+                    for (const deviceId of Object.keys(notified[userId])) {
+                        if (!deviceData.devices[userId]?.[deviceId]) {
+                            delete notified[userId][deviceId];
+                            report.notifiedErrorDevices.push({ userId, deviceId });
+                        }
+                    }
+                    if (Object.keys(notified[userId]).length === 0) {
+                        delete notified[userId];
+                    }
+                }
+                if (report.notifiedErrorDevices.length > 0) {
+                    txn.setItem(this.layout.notifiedErrorDevices, JSON.stringify(notified));
+                }
+            }
+        }
+
+        if (rules.staleChunks ?? true) {
+            const chunkKeys = index.getKeysWithPrefix(this.layout.chunksPrefix);
+            const chunkedKeys = [...new Set(chunkKeys.map((k) => this.layout.parseChunkedKey(k)))];
+            const headers = await this.readItems(chunkedKeys);
+            const generations = new Map<string, number>();
+            chunkedKeys.forEach((key, i) => {
+                const header = headers[i];
+                if (header?.startsWith(CHUNKED_VALUE_MARKER)) {
+                    const { generation } = JSON.parse(header.slice(CHUNKED_VALUE_MARKER.length)) as ChunkedValueHeader;
+                    generations.set(key, generation);
+                }
+            });
+            for (const chunkKey of chunkKeys) {
+                // Newer generations may belong to a write that hasn't written its header yet.
+                const current = generations.get(this.layout.parseChunkedKey(chunkKey));
+                if (current !== undefined && this.layout.parseChunkGeneration(chunkKey) < current) {
+                    txn.removeItem(chunkKey);
+                    report.staleChunks++;
+                }
+            }
+        }
+
+        return report;
+    }
+
+    // Statistics
+
+    /**
+     * Counts the records of each kind in the store, and roughly how much space they take, e.g. for a diagnostics
+     * screen. Values are only read from backends that can't report their sizes.
+     */
+    public async getStorageStats(): Promise<CryptoStoreStats> {
+        return this.trace("getStorageStats", null, async () => {
+            const keys = (await this.getKeyIndex()).getKeysWithPrefix(this.layout.root);
+            const sizes = new Map<string, number | null>();
+            for (const [storage, group] of this.groupByStorage(keys, (k) => k)) {
+                const groupSizes = await sizesFrom(storage, group);
+                group.forEach((key, i) => sizes.set(key, groupSizes[i]));
+            }
+
+            const stats = emptyStorageStats();
+            const layout = this.layout;
+            for (const key of keys) {
+                const size = sizes.get(key);
+                if (size === null || size === undefined) {
+                    continue;
+                }
+                const bytes = key.length + size;
+                if (key.startsWith(layout.chunksPrefix)) {
+                    // Chunks count towards the space taken by the value they are part of.
+                    addBytes(stats, this.getStatsCategory(stats, layout.parseChunkedKey(key)), bytes);
+                } else if (key.startsWith(layout.backupMarkerPrefix)) {
+                    addBytes(stats, stats.backupQueue, bytes);
+                } else if (
+                    key.startsWith(layout.outgoingKeyRequestByBodyPrefix) ||
+                    key.startsWith(layout.outgoingKeyRequestByTargetPrefix)
+                ) {
+                    addBytes(stats, stats.outgoingKeyRequests, bytes);
+                } else if (key.startsWith(layout.outgoingKeyRequestByStatePrefix)) {
+                    addBytes(stats, stats.outgoingKeyRequests, bytes);
+                    const state = Number(key.slice(layout.outgoingKeyRequestByStatePrefix.length).split("/")[0]);
+                    stats.outgoingKeyRequestsByState[state] = (stats.outgoingKeyRequestsByState[state] ?? 0) + 1;
+                } else {
+                    addRecord(stats, this.getStatsCategory(stats, key), bytes);
+                    if (key.startsWith(layout.endToEndSessionPrefix)) {
+                        const deviceKey = decodeURIComponent(
+                            key.slice(layout.endToEndSessionPrefix.length).split("/")[0],
+                        );
+                        const device = (stats.olmSessionsByDevice[deviceKey] ??= { count: 0, bytes: 0 });
+                        device.count++;
+                        device.bytes += bytes;
+                    }
+                }
+            }
+            return stats;
+        });
+    }
+
+    /**
+     * Gets the statistics that the value of `key` counts towards.
+     */
+    private getStatsCategory(stats: CryptoStoreStats, key: string): StorageCategoryStats {
+        const categories: [string, StorageCategoryStats][] = [
+            [this.layout.endToEndSessionPrefix, stats.olmSessions],
+            [this.layout.endToEndSessionProblemsPrefix, stats.sessionProblems],
+            [this.layout.inboundSessionPrefix, stats.inboundGroupSessions],
+            [this.layout.inboundSessionWithheldPrefix, stats.inboundGroupSessionsWithheld],
+            [this.layout.outgoingKeyRequestPrefix, stats.outgoingKeyRequests],
+            [this.layout.roomsPrefix, stats.rooms],
+            [this.layout.backupQueuePrefix, stats.backupQueue],
+        ];
+        return categories.find(([prefix]) => key.startsWith(prefix))?.[1] ?? stats.other;
+    }
 }
@@ -0,0 +1,69 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import AsyncStore from "./AsyncStore";
+
+/**
+ * The parts of the `AsyncStorage` of @react-native-async-storage/async-storage that {@link AsyncStorageStore} uses.
+ */
+export interface AsyncStorageLike {
+    getAllKeys(): Promise<readonly string[]>;
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+    multiGet(keys: readonly string[]): Promise<readonly (readonly [string, string | null])[]>;
+    multiSet(keyValuePairs: ReadonlyArray<readonly [string, string]>): Promise<void>;
+    multiRemove(keys: readonly string[]): Promise<void>;
+}
+
+/**
+ * An AsyncStore over @react-native-async-storage/async-storage, the maintained successor of
+ * @react-native-community/async-storage. Its methods return read-only arrays, which this adapter copies.
+ */
+export default class AsyncStorageStore implements AsyncStore {
+    /**
+     * @param storage - The `AsyncStorage` default export of @react-native-async-storage/async-storage.
+     */
+    public constructor(private readonly storage: AsyncStorageLike) {}
+
+    public async getAllKeys(): Promise<string[]> {
+        return [...(await this.storage.getAllKeys())];
+    }
+
+    public getItem(key: string): Promise<string | null> {
+        return this.storage.getItem(key);
+    }
+
+    public setItem(key: string, value: string): Promise<void> {
+        return this.storage.setItem(key, value);
+    }
+
+    public removeItem(key: string): Promise<void> {
+        return this.storage.removeItem(key);
+    }
+
+    public multiGet(keys: string[]): Promise<readonly (readonly [string, string | null])[]> {
+        return this.storage.multiGet(keys);
+    }
+
+    public multiSet(keyValuePairs: [string, string][]): Promise<void> {
+        return this.storage.multiSet(keyValuePairs);
+    }
+
+    public multiRemove(keys: string[]): Promise<void> {
+        return this.storage.multiRemove(keys);
+    }
+}
@@ -19,4 +19,77 @@ export default interface AsyncStore {
     getItem: (key: string) => Promise<string | null>;
     setItem: (key: string, value: string) => Promise<void>;
     removeItem: (key: string) => Promise<void>;
+
+    // Optional batch operations, as provided by @react-native-community/async-storage. Backends that implement them
+    // can read, write or delete many keys in a single round trip.
+    multiGet?: (keys: string[]) => Promise<readonly (readonly [string, string | null])[]>;
+    multiSet?: (keyValuePairs: [string, string][]) => Promise<void>;
+    multiRemove?: (keys: string[]) => Promise<void>;
+
+    // Optional: gets the lengths of the values of several keys, or null for missing keys, without reading the values.
+    getItemSizes?: (keys: string[]) => Promise<(number | null)[]>;
+}
+
+/**
+ * Reads several keys from a backend, using its multiGet if it has one.
+ *
+ * @returns the values, in the same order as `keys`.
+ */
+export async function readFrom(storage: AsyncStore, keys: string[]): Promise<(string | null)[]> {
+    if (keys.length === 0) {
+        return [];
+    }
+    if (!storage.multiGet) {
+        const result: (string | null)[] = [];
+        for (const key of keys) {
+            result.push(await storage.getItem(key));
+        }
+        return result;
+    }
+    const values = new Map<string, string | null>();
+    for (const [key, value] of await storage.multiGet(keys)) {
+        values.set(key, value);
+    }
+    return keys.map((key) => values.get(key) ?? null);
+}
+
+/**
+ * Gets the lengths of the values of several keys in a backend, reading the values unless it has getItemSizes.
+ *
+ * @returns the lengths, or null for missing keys, in the same order as `keys`.
+ */
+export async function sizesFrom(storage: AsyncStore, keys: string[]): Promise<(number | null)[]> {
+    if (keys.length === 0) {
+        return [];
+    }
+    if (storage.getItemSizes) {
+        return storage.getItemSizes(keys);
+    }
+    return (await readFrom(storage, keys)).map((value) => (value === null ? null : value.length));
+}
+
+/**
+ * Writes keys to a backend, using its multiSet if it has one.
+ */
+export async function writeTo(storage: AsyncStore, keyValuePairs: [string, string][]): Promise<void> {
+    if (keyValuePairs.length > 1 && storage.multiSet) {
+        await storage.multiSet(keyValuePairs);
+    } else {
+        for (const [key, value] of keyValuePairs) {
+            await storage.setItem(key, value);
+        }
+    }
+}
+
+/**
+ * Removes keys from a backend, using its multiRemove if it has one.
+ */
+export async function removeFrom(storage: AsyncStore, keys: string[]): Promise<void> {
+    if (keys.length > 1 && storage.multiRemove) {
+        await storage.multiRemove(keys);
+    } else {
+        for (const key of keys) {
+            await storage.removeItem(key);
+        }
+    }
 }
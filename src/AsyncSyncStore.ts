@@ -0,0 +1,387 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { IStoredClientOpts } from "matrix-js-sdk/lib/client";
+import { IStateEventWithRoomId } from "matrix-js-sdk/lib/@types/search";
+import { Logger, logger as defaultLogger } from "matrix-js-sdk/lib/logger";
+import { IEvent } from "matrix-js-sdk/lib/models/event";
+import { IndexedToDeviceBatch, ToDeviceBatchWithTxnId } from "matrix-js-sdk/lib/models/ToDeviceMessage";
+import { ISavedSync } from "matrix-js-sdk/lib/store";
+import { MemoryStore } from "matrix-js-sdk/lib/store/memory";
+import { ISyncData, ISyncResponse, SyncAccumulator } from "matrix-js-sdk/lib/sync-accumulator";
+import { deepCopy } from "matrix-js-sdk/lib/utils";
+
+import AsyncStore, { readFrom, removeFrom, writeTo } from "./AsyncStore";
+
+const DEFAULT_PREFIX = "sync";
+
+// Like IndexedDBStore, only write the accumulated sync data every few minutes: it is written whole each time.
+const WRITE_DELAY_MS = 1000 * 60 * 5;
+
+// Android's AsyncStorage can't read rows larger than about 2 MB, so the saved sync is stored in chunks.
+const DEFAULT_MAX_VALUE_LENGTH = 256 * 1024;
+
+// Stored under the saved sync key, pointing to the chunks of the saved sync.
+interface SavedSyncHeader {
+    generation: number;
+    count: number;
+    length: number;
+}
+
+export interface AsyncSyncStoreOpts {
+    /**
+     * Keeps the store's keys apart from those of stores with other namespaces, so that several accounts can share
+     * one AsyncStorage. See {@link AsyncCryptoStore.namespaceForDevice}.
+     */
+    namespace?: string;
+
+    /**
+     * The prefix of the keys of the store. It must not contain "." or "/". Defaults to "sync".
+     */
+    prefix?: string;
+
+    /**
+     * The length of the chunks the saved sync is split into. Defaults to 256 KiB.
+     */
+    maxValueLength?: number;
+
+    /**
+     * The logger to report problems to. Defaults to the matrix-js-sdk logger.
+     */
+    logger?: Logger;
+}
+
+/**
+ * A matrix-js-sdk store that keeps the sync accumulator, filters, out-of-band members, client options, pending events
+ * and queued to-device messages in an AsyncStore, so that a restarted client can carry on syncing where it stopped.
+ * Rooms and users are kept in memory, like MemoryStore, and rebuilt from the saved sync.
+ *
+ * The store starts up the first time it is used, but clients should still call `save(true)` when the app goes to the
+ * background, as the sync data is otherwise only written every five minutes.
+ */
+export default class AsyncSyncStore extends MemoryStore {
+    private readonly root: string;
+    private readonly savedSyncKey: string;
+    private readonly createdKey: string;
+    private readonly clientOptionsKey: string;
+    private readonly filtersPrefix: string;
+    private readonly oobMembersPrefix: string;
+    private readonly pendingEventsPrefix: string;
+    private readonly toDevicePrefix: string;
+    private readonly maxValueLength: number;
+    private readonly logger: Logger;
+
+    private started: Promise<void> | null = null;
+    private newlyCreated = false;
+    private syncAccumulator = new SyncAccumulator();
+    private savedSyncHeader: SavedSyncHeader | null = null;
+    private lastSave: Promise<void> = Promise.resolve();
+    private lastSaveTs = 0;
+    private filterIds = new Map<string, string>();
+    // The IDs of the queued to-device batches, oldest first.
+    private toDeviceBatchIds: number[] = [];
+
+    /**
+     * @param storage - The store to keep the data in.
+     * @param opts - Further options.
+     */
+    public constructor(
+        private readonly storage: AsyncStore,
+        opts: AsyncSyncStoreOpts = {},
+    ) {
+        super();
+        const prefix = opts.prefix ?? DEFAULT_PREFIX;
+        this.root =
+            opts.namespace === undefined ? prefix + "." : prefix + "/" + encodeURIComponent(opts.namespace) + "/";
+        this.savedSyncKey = this.root + "saved_sync";
+        this.createdKey = this.root + "created";
+        this.clientOptionsKey = this.root + "client_options";
+        this.filtersPrefix = this.root + "filters/";
+        this.oobMembersPrefix = this.root + "oob_members/";
+        this.pendingEventsPrefix = this.root + "pending_events/";
+        this.toDevicePrefix = this.root + "to_device/";
+        this.maxValueLength = opts.maxValueLength ?? DEFAULT_MAX_VALUE_LENGTH;
+        this.logger = opts.logger ?? defaultLogger;
+    }
+
+    private keySavedSyncChunk(generation: number, index: number): string {
+        return this.savedSyncKey + "/" + generation + "/" + index;
+    }
+
+    private keyToDeviceBatch(id: number): string {
+        return this.toDevicePrefix + ("0".repeat(16) + id).slice(-16);
+    }
+
+    /**
+     * Loads the saved sync, filter IDs and to-device queue. Runs once, the first time the store is used.
+     */
+    public startup(): Promise<void> {
+        if (!this.started) {
+            this.started = this.load();
+            // Let the next caller retry if loading failed.
+            this.started.catch(() => {
+                this.started = null;
+            });
+        }
+        return this.started;
+    }
+
+    private async load(): Promise<void> {
+        const keys = (await this.storage.getAllKeys()).filter((k) => k.startsWith(this.root));
+
+        this.newlyCreated = !keys.includes(this.createdKey);
+        if (this.newlyCreated) {
+            await this.storage.setItem(this.createdKey, JSON.stringify(Date.now()));
+        }
+
+        const filterKeys = keys.filter((k) => k.startsWith(this.filtersPrefix));
+        const filterIds = await readFrom(this.storage, filterKeys);
+        filterKeys.forEach((key, i) => {
+            const filterId = filterIds[i];
+            if (filterId !== null) {
+                this.filterIds.set(decodeURIComponent(key.slice(this.filtersPrefix.length)), filterId);
+            }
+        });
+
+        this.toDeviceBatchIds = keys
+            .filter((k) => k.startsWith(this.toDevicePrefix))
+            .map((k) => Number(k.slice(this.toDevicePrefix.length)))
+            .sort((a, b) => a - b);
+
+        const syncData = await this.loadSavedSync();
+        if (syncData) {
+            this.syncAccumulator.accumulate(
+                {
+                    next_batch: syncData.nextBatch,
+                    rooms: syncData.roomsData,
+                    account_data: { events: syncData.accountData },
+                },
+                true,
+            );
+        }
+    }
+
+    /**
+     * Reads the saved sync back from its chunks.
+     */
+    private async loadSavedSync(): Promise<ISyncData | null> {
+        const header = await this.storage.getItem(this.savedSyncKey);
+        if (header === null) {
+            return null;
+        }
+        this.savedSyncHeader = JSON.parse(header) as SavedSyncHeader;
+        const { generation, count, length } = this.savedSyncHeader;
+        const chunkKeys: string[] = [];
+        for (let i = 0; i < count; i++) {
+            chunkKeys.push(this.keySavedSyncChunk(generation, i));
+        }
+        const chunks = await readFrom(this.storage, chunkKeys);
+        const json = chunks.join("");
+        if (chunks.some((c) => c === null) || json.length !== length) {
+            // The sync data is only a cache: start again with an initial sync rather than fail.
+            this.logger.warn("AsyncSyncStore: the saved sync is incomplete, discarding it");
+            return null;
+        }
+        return JSON.parse(json) as ISyncData;
+    }
+
+    /**
+     * Writes the accumulated sync data. The chunks of the new data are written before the header that points to
+     * them, and the old chunks are only deleted afterwards, so an interrupted save leaves the previous one readable.
+     */
+    private async persistSyncData(): Promise<void> {
+        const syncData = this.syncAccumulator.getJSON(true);
+        if (!syncData.nextBatch) {
+            return;
+        }
+        const json = JSON.stringify(syncData);
+        const previous = this.savedSyncHeader;
+        const generation = previous ? previous.generation + 1 : 0;
+        const count = Math.ceil(json.length / this.maxValueLength);
+        const chunks: [string, string][] = [];
+        for (let i = 0; i < count; i++) {
+            chunks.push([
+                this.keySavedSyncChunk(generation, i),
+                json.slice(i * this.maxValueLength, (i + 1) * this.maxValueLength),
+            ]);
+        }
+        const header: SavedSyncHeader = { generation, count, length: json.length };
+
+        await writeTo(this.storage, chunks);
+        await this.storage.setItem(this.savedSyncKey, JSON.stringify(header));
+        this.savedSyncHeader = header;
+        if (previous) {
+            const staleKeys: string[] = [];
+            for (let i = 0; i < previous.count; i++) {
+                staleKeys.push(this.keySavedSyncChunk(previous.generation, i));
+            }
+            await removeFrom(this.storage, staleKeys);
+        }
+    }
+
+    private async getJsonItem<T>(key: string): Promise<T | null> {
+        const value = await this.storage.getItem(key);
+        return value === null ? null : (JSON.parse(value) as T);
+    }
+
+    // IStore
+
+    public async isNewlyCreated(): Promise<boolean> {
+        await this.startup();
+        return this.newlyCreated;
+    }
+
+    public async setSyncData(syncData: ISyncResponse): Promise<void> {
+        await this.startup();
+        this.syncAccumulator.accumulate(syncData);
+    }
+
+    public wantsSave(): boolean {
+        return Date.now() - this.lastSaveTs > WRITE_DELAY_MS;
+    }
+
+    public async save(force = false): Promise<void> {
+        if (!force && !this.wantsSave()) {
+            return;
+        }
+        await this.startup();
+        this.lastSaveTs = Date.now();
+        // Run one save at a time, so that their chunk generations don't collide.
+        const save = this.lastSave.then(() => this.persistSyncData());
+        this.lastSave = save.catch(() => {});
+        await save;
+    }
+
+    public async getSavedSync(): Promise<ISavedSync | null> {
+        await this.startup();
+        const data = this.syncAccumulator.getJSON();
+        if (!data.nextBatch) {
+            return null;
+        }
+        // The sync code modifies the data it is given, so give it a copy of the accumulator's.
+        return deepCopy(data);
+    }
+
+    public async getSavedSyncToken(): Promise<string | null> {
+        await this.startup();
+        return this.syncAccumulator.getNextBatchToken() ?? null;
+    }
+
+    public getFilterIdByName(filterName: string): string | null {
+        return this.filterIds.get(filterName) ?? null;
+    }
+
+    public setFilterIdByName(filterName: string, filterId?: string): void {
+        const key = this.filtersPrefix + encodeURIComponent(filterName);
+        let write: Promise<void>;
+        if (filterId) {
+            this.filterIds.set(filterName, filterId);
+            write = this.storage.setItem(key, filterId);
+        } else {
+            this.filterIds.delete(filterName);
+            write = this.storage.removeItem(key);
+        }
+        // Losing a filter ID only means creating the filter again.
+        write.catch((e) => this.logger.warn(`AsyncSyncStore: failed to save filter ${filterName}`, e));
+    }
+
+    public async getOutOfBandMembers(roomId: string): Promise<IStateEventWithRoomId[] | null> {
+        return this.getJsonItem(this.oobMembersPrefix + encodeURIComponent(roomId));
+    }
+
+    public async setOutOfBandMembers(roomId: string, membershipEvents: IStateEventWithRoomId[]): Promise<void> {
+        await super.setOutOfBandMembers(roomId, membershipEvents);
+        await this.storage.setItem(
+            this.oobMembersPrefix + encodeURIComponent(roomId),
+            JSON.stringify(membershipEvents),
+        );
+    }
+
+    public async clearOutOfBandMembers(roomId: string): Promise<void> {
+        await super.clearOutOfBandMembers(roomId);
+        await this.storage.removeItem(this.oobMembersPrefix + encodeURIComponent(roomId));
+    }
+
+    public async getClientOptions(): Promise<IStoredClientOpts | undefined> {
+        return (await this.getJsonItem<IStoredClientOpts>(this.clientOptionsKey)) ?? undefined;
+    }
+
+    public async storeClientOptions(options: IStoredClientOpts): Promise<void> {
+        await super.storeClientOptions(options);
+        await this.storage.setItem(this.clientOptionsKey, JSON.stringify(options));
+    }
+
+    public async getPendingEvents(roomId: string): Promise<Partial<IEvent>[]> {
+        return (await this.getJsonItem<Partial<IEvent>[]>(this.pendingEventsPrefix + encodeURIComponent(roomId))) ?? [];
+    }
+
+    public async setPendingEvents(roomId: string, events: Partial<IEvent>[]): Promise<void> {
+        const key = this.pendingEventsPrefix + encodeURIComponent(roomId);
+        if (events.length > 0) {
+            await this.storage.setItem(key, JSON.stringify(events));
+        } else {
+            await this.storage.removeItem(key);
+        }
+    }
+
+    public async saveToDeviceBatches(batches: ToDeviceBatchWithTxnId[]): Promise<void> {
+        await this.startup();
+        let nextId = this.toDeviceBatchIds.length ? this.toDeviceBatchIds[this.toDeviceBatchIds.length - 1] + 1 : 0;
+        const entries: [string, string][] = [];
+        const ids: number[] = [];
+        for (const batch of batches) {
+            const id = nextId++;
+            ids.push(id);
+            entries.push([this.keyToDeviceBatch(id), JSON.stringify(batch)]);
+        }
+        // Claim the IDs before writing, so that a concurrent call doesn't reuse them.
+        this.toDeviceBatchIds.push(...ids);
+        try {
+            await writeTo(this.storage, entries);
+        } catch (e) {
+            this.toDeviceBatchIds = this.toDeviceBatchIds.filter((id) => !ids.includes(id));
+            throw e;
+        }
+    }
+
+    public async getOldestToDeviceBatch(): Promise<IndexedToDeviceBatch | null> {
+        await this.startup();
+        for (const id of this.toDeviceBatchIds) {
+            const batch = await this.getJsonItem<ToDeviceBatchWithTxnId>(this.keyToDeviceBatch(id));
+            if (batch) {
+                return { id, txnId: batch.txnId, eventType: batch.eventType, batch: batch.batch };
+            }
+        }
+        return null;
+    }
+
+    public async removeToDeviceBatch(id: number): Promise<void> {
+        await this.startup();
+        this.toDeviceBatchIds = this.toDeviceBatchIds.filter((i) => i !== id);
+        await this.storage.removeItem(this.keyToDeviceBatch(id));
+    }
+
+    public async deleteAllData(): Promise<void> {
+        await this.startup();
+        await super.deleteAllData();
+        const keys = (await this.storage.getAllKeys()).filter((k) => k.startsWith(this.root));
+        await removeFrom(this.storage, keys);
+        this.syncAccumulator = new SyncAccumulator();
+        this.savedSyncHeader = null;
+        this.filterIds.clear();
+        this.toDeviceBatchIds = [];
+    }
+}
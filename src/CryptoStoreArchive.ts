@@ -0,0 +1,171 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { bytesToUtf8, utf8ToBytes } from "@noble/ciphers/utils";
+import { randomBytes as webcryptoRandomBytes } from "@noble/ciphers/webcrypto";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { base64 } from "@scure/base";
+
+const ARCHIVE_FORMAT = "matrix-rn-sdk.crypto-store-archive";
+const ARCHIVE_VERSION = 1;
+
+const DEFAULT_ITERATIONS = 200000;
+// The header is only authenticated once the key has been derived, so it can't be trusted to choose how long that takes.
+const MAX_ITERATIONS = 10 * DEFAULT_ITERATIONS;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 24;
+
+export interface ArchiveOpts {
+    /**
+     * The number of PBKDF2 iterations used to derive the archive key from the passphrase. Defaults to 200000, and
+     * can be at most 2000000.
+     */
+    iterations?: number;
+
+    /**
+     * Returns `length` cryptographically secure random bytes. Defaults to `crypto.getRandomValues`, which needs a
+     * polyfill such as react-native-get-random-values on Hermes.
+     */
+    randomBytes?: (length: number) => Uint8Array;
+}
+
+// The parts of an archive that are stored in the clear. They are authenticated along with the ciphertext.
+interface ArchiveHeader {
+    format: string;
+    version: number;
+    kdf: {
+        algorithm: "pbkdf2-sha256";
+        iterations: number;
+        salt: string;
+    };
+    nonce: string;
+}
+
+interface Archive extends ArchiveHeader {
+    ciphertext: string;
+}
+
+async function deriveKey(passphrase: string, kdf: ArchiveHeader["kdf"]): Promise<Uint8Array> {
+    return pbkdf2Async(sha256, passphrase, base64.decode(kdf.salt), { c: kdf.iterations, dkLen: 32 });
+}
+
+function decodesToLength(value: unknown, length: number): boolean {
+    try {
+        return typeof value === "string" && base64.decode(value).length === length;
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Checks the parts of an archive that key derivation and decryption use, before they are used.
+ */
+function isValidArchive(archive: Archive): boolean {
+    const { iterations, salt } = archive.kdf;
+    return (
+        Number.isInteger(iterations) &&
+        iterations > 0 &&
+        iterations <= MAX_ITERATIONS &&
+        decodesToLength(salt, SALT_LENGTH) &&
+        decodesToLength(archive.nonce, NONCE_LENGTH) &&
+        typeof archive.ciphertext === "string"
+    );
+}
+
+function headerBytes(header: ArchiveHeader): Uint8Array {
+    const { format, version, kdf, nonce } = header;
+    return utf8ToBytes(JSON.stringify({ format, version, kdf, nonce }));
+}
+
+/**
+ * Serializes store entries to a passphrase-encrypted archive.
+ *
+ * @param entries - The key/value pairs to archive.
+ * @param passphrase - The passphrase to encrypt the archive with.
+ * @param opts - Further options.
+ * @returns the archive, as a string.
+ */
+export async function encryptArchive(
+    entries: [string, string][],
+    passphrase: string,
+    opts: ArchiveOpts = {},
+): Promise<string> {
+    const iterations = opts.iterations ?? DEFAULT_ITERATIONS;
+    if (!Number.isInteger(iterations) || iterations <= 0 || iterations > MAX_ITERATIONS) {
+        throw new Error(`The number of iterations must be an integer from 1 to ${MAX_ITERATIONS}`);
+    }
+    const randomBytes = opts.randomBytes ?? webcryptoRandomBytes;
+    const header: ArchiveHeader = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        kdf: {
+            algorithm: "pbkdf2-sha256",
+            iterations,
+            salt: base64.encode(randomBytes(SALT_LENGTH)),
+        },
+        nonce: base64.encode(randomBytes(NONCE_LENGTH)),
+    };
+
+    const key = await deriveKey(passphrase, header.kdf);
+    const ciphertext = xchacha20poly1305(key, base64.decode(header.nonce), headerBytes(header)).encrypt(
+        utf8ToBytes(JSON.stringify(entries)),
+    );
+
+    const archive: Archive = { ...header, ciphertext: base64.encode(ciphertext) };
+    return JSON.stringify(archive);
+}
+
+/**
+ * Reads the store entries back from an archive made by {@link encryptArchive}.
+ *
+ * @param archive - The archive, as a string.
+ * @param passphrase - The passphrase the archive was encrypted with.
+ * @returns the archived key/value pairs.
+ * @throws if the archive has an unknown format or version, an invalid header, or fails its integrity check.
+ */
+export async function decryptArchive(archive: string, passphrase: string): Promise<[string, string][]> {
+    let parsed: Archive;
+    try {
+        parsed = JSON.parse(archive);
+    } catch (e) {
+        throw new Error("Not a crypto store archive: it is not valid JSON");
+    }
+    if (parsed?.format !== ARCHIVE_FORMAT) {
+        throw new Error("Not a crypto store archive");
+    }
+    if (parsed.version !== ARCHIVE_VERSION) {
+        throw new Error(`Unsupported crypto store archive version ${parsed.version}`);
+    }
+    if (parsed.kdf?.algorithm !== "pbkdf2-sha256") {
+        throw new Error(`Unsupported crypto store archive key derivation ${parsed.kdf?.algorithm}`);
+    }
+    if (!isValidArchive(parsed)) {
+        throw new Error("Invalid crypto store archive: its header is malformed");
+    }
+
+    const key = await deriveKey(passphrase, parsed.kdf);
+    let plaintext: Uint8Array;
+    try {
+        plaintext = xchacha20poly1305(key, base64.decode(parsed.nonce), headerBytes(parsed)).decrypt(
+            base64.decode(parsed.ciphertext),
+        );
+    } catch (e) {
+        throw new Error("Crypto store archive failed its integrity check: wrong passphrase, or a corrupted archive");
+    }
+    return JSON.parse(bytesToUtf8(plaintext));
+}
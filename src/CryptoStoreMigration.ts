@@ -0,0 +1,637 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { RoomKeyRequestState } from "matrix-js-sdk/lib/crypto/OutgoingRoomKeyRequestManager";
+import { IRoomEncryption } from "matrix-js-sdk/lib/crypto/RoomList";
+import {
+    CryptoStore,
+    IDeviceData,
+    ISession,
+    ISessionInfo,
+    IWithheld,
+    ParkedSharedHistory,
+    SESSION_BATCH_SIZE,
+    SecretStorePrivateKeys,
+} from "matrix-js-sdk/lib/crypto/store/base";
+import { IndexedDBCryptoStore } from "matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store";
+import { CrossSigningKeyInfo } from "matrix-js-sdk/lib/crypto-api";
+
+import AsyncCryptoStore from "./AsyncCryptoStore";
+import { UnmigratableRecord } from "./LegacyCryptoMigration";
+
+export type CryptoStoreMigrationPhase =
+    | "account"
+    | "olm_sessions"
+    | "inbound_group_sessions"
+    | "device_data"
+    | "rooms"
+    | "backup"
+    | "key_requests"
+    | "verify"
+    | "cleanup";
+
+export interface CryptoStoreMigrationProgress {
+    phase: CryptoStoreMigrationPhase;
+    // The number of records of this phase copied so far.
+    done: number;
+    // The number of records this phase will copy.
+    total: number;
+}
+
+export interface CryptoStoreMigrationOpts {
+    /**
+     * Called as the migration progresses.
+     */
+    onProgress?: (progress: CryptoStoreMigrationProgress) => void;
+
+    /**
+     * Called for each session of an AsyncCryptoStore that can't be read, and so isn't copied. Such sessions are
+     * lost when the source is deleted.
+     */
+    onUnmigratable?: (record: UnmigratableRecord) => void;
+
+    /**
+     * Whether to delete the data from the source store once the copy has been verified. Defaults to true.
+     */
+    deleteSource?: boolean;
+}
+
+const ROOM_KEY_REQUEST_STATES = [
+    RoomKeyRequestState.Unsent,
+    RoomKeyRequestState.Sent,
+    RoomKeyRequestState.CancellationPending,
+    RoomKeyRequestState.CancellationPendingAndWillResend,
+];
+
+interface AccountData {
+    account: string | null;
+    crossSigningKeys: Record<string, CrossSigningKeyInfo> | null;
+    secretStorePrivateKeys: Partial<SecretStorePrivateKeys>;
+}
+
+async function readAccountData(store: CryptoStore): Promise<AccountData> {
+    const data: AccountData = { account: null, crossSigningKeys: null, secretStorePrivateKeys: {} };
+    await store.doTxn("readonly", [IndexedDBCryptoStore.STORE_ACCOUNT], (txn) => {
+        store.getAccount(txn, (account) => (data.account = account));
+        store.getCrossSigningKeys(txn, (keys) => (data.crossSigningKeys = keys));
+        store.getSecretStorePrivateKey(
+            txn,
+            (key) => (data.secretStorePrivateKeys["dehydration"] = key ?? undefined),
+            "dehydration",
+        );
+        store.getSecretStorePrivateKey(
+            txn,
+            (key) => (data.secretStorePrivateKeys["m.megolm_backup.v1"] = key ?? undefined),
+            "m.megolm_backup.v1",
+        );
+    });
+    return data;
+}
+
+// The number of sessions of each kind that are compared between the stores after copying, besides their counts.
+const VERIFY_SAMPLE_SIZE = 32;
+
+type IndexedDBKey = string[];
+
+/**
+ * Compares two keys of the session object stores of IndexedDBCryptoStore, which are arrays of strings, in the order
+ * of IndexedDB.
+ */
+function compareKeys(a: IndexedDBKey, b: IndexedDBKey): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) {
+            return a[i] < b[i] ? -1 : 1;
+        }
+    }
+    return a.length - b.length;
+}
+
+/**
+ * Reads up to `limit` records of an object store of an IndexedDBCryptoStore, after the one with the key `after`.
+ *
+ * @returns the keys and values of the records, or null if the store isn't backed by IndexedDB.
+ */
+async function readIndexedDBPage(
+    store: CryptoStore,
+    storeName: string,
+    after: IndexedDBKey | null,
+    limit: number,
+): Promise<[IndexedDBKey, unknown][] | null> {
+    let page: [IndexedDBKey, unknown][] | null = null;
+    await store.doTxn("readonly", [storeName], (txn) => {
+        // IndexedDBCryptoStore falls back to other backends if IndexedDB doesn't work.
+        if (typeof (txn as IDBTransaction | null)?.objectStore !== "function") {
+            return;
+        }
+        const records: [IndexedDBKey, unknown][] = [];
+        page = records;
+        const request = (txn as IDBTransaction).objectStore(storeName).openCursor();
+        request.onsuccess = (): void => {
+            const cursor = request.result;
+            if (!cursor) {
+                return;
+            }
+            const key = cursor.primaryKey as IndexedDBKey;
+            if (after !== null && compareKeys(key, after) <= 0) {
+                // The smallest key after `after`: keys with `after` as a prefix sort after it.
+                cursor.continue([...after, ""]);
+                return;
+            }
+            records.push([key, cursor.value]);
+            if (records.length < limit) {
+                cursor.continue();
+            }
+        };
+    });
+    return page;
+}
+
+/**
+ * Passes the Olm sessions of a store to `func` in batches, reading each batch only once the previous one has been
+ * handled, so that large stores needn't fit in memory. Sessions of an AsyncCryptoStore that can't be read are passed
+ * to `onUnreadable` instead.
+ */
+async function forEachOlmSessionBatch(
+    store: CryptoStore,
+    func: (batch: ISessionInfo[]) => Promise<void>,
+    onUnreadable: (key: string, error: Error) => void,
+): Promise<void> {
+    if (store instanceof AsyncCryptoStore) {
+        let cursor: string | null = null;
+        do {
+            const page = await store.getEndToEndSessionsPage(cursor, SESSION_BATCH_SIZE);
+            page.unreadable.forEach(({ key, error }) => onUnreadable(key, error));
+            await func(page.sessions);
+            cursor = page.cursor;
+        } while (cursor !== null);
+        return;
+    }
+
+    let after: IndexedDBKey | null = null;
+    for (;;) {
+        const page = await readIndexedDBPage(store, IndexedDBCryptoStore.STORE_SESSIONS, after, SESSION_BATCH_SIZE);
+        if (page === null) {
+            break;
+        }
+        if (page.length === 0) {
+            return;
+        }
+        await func(page.map(([, value]) => value as ISessionInfo));
+        after = page[page.length - 1][0];
+    }
+
+    // Other stores, such as MemoryCryptoStore, already hold every session in memory.
+    const sessions: ISessionInfo[] = [];
+    await store.doTxn("readonly", [IndexedDBCryptoStore.STORE_SESSIONS], (txn) => {
+        store.getAllEndToEndSessions(txn, (session) => {
+            if (session) {
+                sessions.push(session);
+            }
+        });
+    });
+    for (let i = 0; i < sessions.length; i += SESSION_BATCH_SIZE) {
+        await func(sessions.slice(i, i + SESSION_BATCH_SIZE));
+    }
+}
+
+/**
+ * Like {@link forEachOlmSessionBatch}, for inbound group sessions.
+ */
+async function forEachInboundGroupSessionBatch(
+    store: CryptoStore,
+    func: (batch: ISession[]) => Promise<void>,
+    onUnreadable: (key: string, error: Error) => void,
+): Promise<void> {
+    if (store instanceof AsyncCryptoStore) {
+        let cursor: string | null = null;
+        do {
+            const page = await store.getEndToEndInboundGroupSessionsPage(cursor, SESSION_BATCH_SIZE);
+            page.unreadable.forEach(({ key, error }) => onUnreadable(key, error));
+            await func(page.sessions);
+            cursor = page.cursor;
+        } while (cursor !== null);
+        return;
+    }
+
+    let after: IndexedDBKey | null = null;
+    for (;;) {
+        const page = await readIndexedDBPage(
+            store,
+            IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+            after,
+            SESSION_BATCH_SIZE,
+        );
+        if (page === null) {
+            break;
+        }
+        if (page.length === 0) {
+            return;
+        }
+        await func(
+            page.map(([, value]) => {
+                const record = value as { senderCurve25519Key: string; sessionId: string; session: unknown };
+                return {
+                    senderKey: record.senderCurve25519Key,
+                    sessionId: record.sessionId,
+                    sessionData: record.session,
+                } as ISession;
+            }),
+        );
+        after = page[page.length - 1][0];
+    }
+
+    const sessions: ISession[] = [];
+    await store.doTxn("readonly", [IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS], (txn) => {
+        store.getAllEndToEndInboundGroupSessions(txn, (session) => {
+            if (session) {
+                sessions.push(session);
+            }
+        });
+    });
+    for (let i = 0; i < sessions.length; i += SESSION_BATCH_SIZE) {
+        await func(sessions.slice(i, i + SESSION_BATCH_SIZE));
+    }
+}
+
+/**
+ * Keeps a uniformly random sample of up to {@link VERIFY_SAMPLE_SIZE} of the items added to it.
+ */
+class Sample<T> {
+    public readonly items: T[] = [];
+    private seen = 0;
+
+    public add(item: T): void {
+        this.seen++;
+        if (this.items.length < VERIFY_SAMPLE_SIZE) {
+            this.items.push(item);
+            return;
+        }
+        const i = Math.floor(Math.random() * this.seen);
+        if (i < VERIFY_SAMPLE_SIZE) {
+            this.items[i] = item;
+        }
+    }
+}
+
+async function readDeviceData(store: CryptoStore): Promise<IDeviceData | null> {
+    let deviceData: IDeviceData | null = null;
+    await store.doTxn("readonly", [IndexedDBCryptoStore.STORE_DEVICE_DATA], (txn) => {
+        store.getEndToEndDeviceData(txn, (data) => (deviceData = data));
+    });
+    return deviceData;
+}
+
+async function readRooms(store: CryptoStore): Promise<Record<string, IRoomEncryption>> {
+    let rooms: Record<string, IRoomEncryption> = {};
+    await store.doTxn("readonly", [IndexedDBCryptoStore.STORE_ROOMS], (txn) => {
+        store.getEndToEndRooms(txn, (result) => (rooms = result));
+    });
+    return rooms;
+}
+
+/**
+ * Reads the shared history parked in a store, leaving it in the store.
+ *
+ * @param roomIds - The rooms to look in, for stores that can't list the rooms with parked history.
+ *
+ * @returns the parked history of each room that has some, by room ID.
+ */
+async function readParkedSharedHistory(
+    store: CryptoStore,
+    roomIds: string[],
+): Promise<Map<string, ParkedSharedHistory[]>> {
+    if (store instanceof AsyncCryptoStore) {
+        return store.getAllParkedSharedHistory();
+    }
+
+    const records = await readIndexedDBPage(store, IndexedDBCryptoStore.STORE_PARKED_SHARED_HISTORY, null, Infinity);
+    if (records !== null) {
+        const result = new Map<string, ParkedSharedHistory[]>();
+        for (const [, value] of records) {
+            const record = value as { roomId: string; parked: ParkedSharedHistory[] };
+            if (record.parked.length > 0) {
+                result.set(record.roomId, record.parked);
+            }
+        }
+        return result;
+    }
+
+    // Other stores, such as MemoryCryptoStore, only hold it in memory, so nothing is lost if this fails half way.
+    const result = new Map<string, ParkedSharedHistory[]>();
+    for (const roomId of roomIds) {
+        const parked = await store.takeParkedSharedHistory(roomId);
+        for (const data of parked) {
+            await store.addParkedSharedHistory(roomId, data);
+        }
+        if (parked.length > 0) {
+            result.set(roomId, parked);
+        }
+    }
+    return result;
+}
+
+async function countOlmSessions(store: CryptoStore): Promise<number> {
+    let count = 0;
+    await store.doTxn("readonly", [IndexedDBCryptoStore.STORE_SESSIONS], (txn) => {
+        store.countEndToEndSessions(txn, (result) => (count = result));
+    });
+    return count;
+}
+
+/**
+ * Copies the contents of one crypto store into another, which must not hold an account yet, and verifies the copy.
+ * Both stores must have been started.
+ *
+ * This only relies on the `CryptoStore` interface, so it works in both directions between `AsyncCryptoStore` and
+ * `IndexedDBCryptoStore`. The interface has no way to list withheld notices for sessions we don't have, session
+ * problems or the devices we have told about them, so those are not copied: they only affect error reporting.
+ *
+ * Sessions are read and written in batches, and a sample of them is compared between the stores along with the
+ * counts of each kind of record. Sessions of an AsyncCryptoStore that can't be read are reported to
+ * `opts.onUnmigratable` and left out of the counts.
+ *
+ * @param source - The store to copy from.
+ * @param target - The store to copy to.
+ * @param opts - Further options.
+ *
+ * @throws if the target already holds an account, the source holds sessions but no account (e.g. because it was
+ * opened without its secure store), or the copy fails. In that case the source is left untouched, and anything
+ * already copied is deleted from the target, so that the migration can be retried.
+ */
+export async function migrateCryptoStore(
+    source: CryptoStore,
+    target: CryptoStore,
+    opts: CryptoStoreMigrationOpts = {},
+): Promise<void> {
+    const report = (phase: CryptoStoreMigrationPhase, done: number, total: number): void =>
+        opts.onProgress?.({ phase, done, total });
+
+    if ((await readAccountData(target)).account !== null) {
+        throw new Error("Can't migrate into a crypto store that already holds an account");
+    }
+    // Without its account, the sessions of the source are useless, and deleting the source would lose the account.
+    if (
+        (await readAccountData(source)).account === null &&
+        ((await countOlmSessions(source)) > 0 || (await source.countEndToEndInboundGroupSessions()) > 0)
+    ) {
+        throw new Error("Can't migrate a crypto store that holds sessions but no account");
+    }
+
+    try {
+        await copyStore(source, target, report, opts.onUnmigratable);
+    } catch (e) {
+        // The original error matters more than one from cleaning up.
+        await target.deleteAllData().catch(() => undefined);
+        throw e;
+    }
+
+    if (opts.deleteSource ?? true) {
+        report("cleanup", 0, 1);
+        await source.deleteAllData();
+        report("cleanup", 1, 1);
+    }
+}
+
+async function copyStore(
+    source: CryptoStore,
+    target: CryptoStore,
+    report: (phase: CryptoStoreMigrationPhase, done: number, total: number) => void,
+    onUnmigratable?: (record: UnmigratableRecord) => void,
+): Promise<void> {
+    report("account", 0, 1);
+    const accountData = await readAccountData(source);
+    await target.doTxn("readwrite", [IndexedDBCryptoStore.STORE_ACCOUNT], (txn) => {
+        if (accountData.account !== null) {
+            target.storeAccount(txn, accountData.account);
+        }
+        if (accountData.crossSigningKeys !== null) {
+            target.storeCrossSigningKeys(txn, accountData.crossSigningKeys);
+        }
+        const { dehydration, "m.megolm_backup.v1": backupKey } = accountData.secretStorePrivateKeys;
+        if (dehydration) {
+            target.storeSecretStorePrivateKey(txn, "dehydration", dehydration);
+        }
+        if (backupKey) {
+            target.storeSecretStorePrivateKey(txn, "m.megolm_backup.v1", backupKey);
+        }
+    });
+    await target.setMigrationState(await source.getMigrationState());
+    report("account", 1, 1);
+
+    const olmSample = new Sample<ISessionInfo>();
+    const olmTotal = await countOlmSessions(source);
+    let olmDone = 0;
+    let olmUnreadable = 0;
+    report("olm_sessions", 0, olmTotal);
+    await forEachOlmSessionBatch(
+        source,
+        async (batch) => {
+            await target.doTxn("readwrite", [IndexedDBCryptoStore.STORE_SESSIONS], (txn) => {
+                for (const session of batch) {
+                    target.storeEndToEndSession(session.deviceKey!, session.sessionId!, session, txn);
+                    olmSample.add(session);
+                }
+            });
+            olmDone += batch.length;
+            report("olm_sessions", olmDone, olmTotal);
+        },
+        (key, error) => {
+            olmDone++;
+            olmUnreadable++;
+            onUnmigratable?.({ phase: "olm_sessions", key, reason: error.message });
+        },
+    );
+
+    const inboundSample = new Sample<ISession>();
+    const inboundTotal = await source.countEndToEndInboundGroupSessions();
+    let inboundDone = 0;
+    let inboundUnreadable = 0;
+    report("inbound_group_sessions", 0, inboundTotal);
+    await forEachInboundGroupSessionBatch(
+        source,
+        async (batch) => {
+            const stores = [
+                IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS,
+                IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS_WITHHELD,
+            ];
+            const withheld = new Map<ISession, IWithheld | null>();
+            await source.doTxn("readonly", stores, (txn) => {
+                for (const session of batch) {
+                    source.getEndToEndInboundGroupSession(session.senderKey, session.sessionId, txn, (_, result) =>
+                        withheld.set(session, result),
+                    );
+                }
+            });
+            await target.doTxn("readwrite", stores, (txn) => {
+                for (const session of batch) {
+                    target.storeEndToEndInboundGroupSession(
+                        session.senderKey,
+                        session.sessionId,
+                        session.sessionData!,
+                        txn,
+                    );
+                    const sessionWithheld = withheld.get(session);
+                    if (sessionWithheld) {
+                        target.storeEndToEndInboundGroupSessionWithheld(
+                            session.senderKey,
+                            session.sessionId,
+                            sessionWithheld,
+                            txn,
+                        );
+                    }
+                    inboundSample.add(session);
+                }
+            });
+            inboundDone += batch.length;
+            report("inbound_group_sessions", inboundDone, inboundTotal);
+        },
+        (key, error) => {
+            inboundDone++;
+            inboundUnreadable++;
+            onUnmigratable?.({ phase: "inbound_group_sessions", key, reason: error.message });
+        },
+    );
+
+    report("device_data", 0, 1);
+    const deviceData = await readDeviceData(source);
+    if (deviceData) {
+        await target.doTxn("readwrite", [IndexedDBCryptoStore.STORE_DEVICE_DATA], (txn) => {
+            target.storeEndToEndDeviceData(deviceData, txn);
+        });
+    }
+    report("device_data", 1, 1);
+
+    const rooms = await readRooms(source);
+    const roomIds = Object.keys(rooms);
+    report("rooms", 0, roomIds.length);
+    for (const [i, roomId] of roomIds.entries()) {
+        await target.doTxn("readwrite", [IndexedDBCryptoStore.STORE_ROOMS], (txn) => {
+            target.storeEndToEndRoom(roomId, rooms[roomId], txn);
+        });
+        for (const [senderKey, sessionId] of await source.getSharedHistoryInboundGroupSessions(roomId)) {
+            await target.addSharedHistoryInboundGroupSession(roomId, senderKey, sessionId);
+        }
+        report("rooms", i + 1, roomIds.length);
+    }
+    // History can be parked for rooms we don't know the encryption of yet.
+    for (const [roomId, parked] of await readParkedSharedHistory(source, roomIds)) {
+        for (const data of parked) {
+            await target.addParkedSharedHistory(roomId, data);
+        }
+    }
+
+    const sessionsNeedingBackup = await source.getSessionsNeedingBackup(0);
+    report("backup", 0, sessionsNeedingBackup.length);
+    await target.markSessionsNeedingBackup(sessionsNeedingBackup);
+    report("backup", sessionsNeedingBackup.length, sessionsNeedingBackup.length);
+
+    const requests = [];
+    for (const state of ROOM_KEY_REQUEST_STATES) {
+        requests.push(...(await source.getAllOutgoingRoomKeyRequestsByState(state)));
+    }
+    report("key_requests", 0, requests.length);
+    for (const [i, request] of requests.entries()) {
+        await target.getOrAddOutgoingRoomKeyRequest(request);
+        report("key_requests", i + 1, requests.length);
+    }
+
+    report("verify", 0, 1);
+    await verifyCopy(source, target, accountData.account, olmSample.items, inboundSample.items, {
+        olmSessions: olmUnreadable,
+        inboundGroupSessions: inboundUnreadable,
+    });
+    report("verify", 1, 1);
+}
+
+async function verifyCopy(
+    source: CryptoStore,
+    target: CryptoStore,
+    account: string | null,
+    olmSessions: ISessionInfo[],
+    inboundGroupSessions: ISession[],
+    unreadable: { olmSessions: number; inboundGroupSessions: number },
+): Promise<void> {
+    const check = async (what: string, count: (store: CryptoStore) => Promise<number>, skipped = 0): Promise<void> => {
+        if ((await count(source)) - skipped !== (await count(target))) {
+            throw new Error(`Crypto store migration failed verification: ${what} differ`);
+        }
+    };
+
+    if ((await readAccountData(target)).account !== account) {
+        throw new Error("Crypto store migration failed verification: accounts differ");
+    }
+    await check("Olm session counts", countOlmSessions, unreadable.olmSessions);
+    await check(
+        "inbound group session counts",
+        (store) => store.countEndToEndInboundGroupSessions(),
+        unreadable.inboundGroupSessions,
+    );
+    await check("backup queue lengths", (store) => store.countSessionsNeedingBackup());
+    await check("room counts", async (store) => Object.keys(await readRooms(store)).length);
+
+    const copied = await readSessions(target, olmSessions, inboundGroupSessions);
+    olmSessions.forEach((session, i) => {
+        if (copied.olmSessions[i] !== session.session) {
+            throw new Error(`Crypto store migration failed verification: Olm session ${session.sessionId} differs`);
+        }
+    });
+    inboundGroupSessions.forEach((session, i) => {
+        if (JSON.stringify(copied.inboundGroupSessions[i]) !== JSON.stringify(session.sessionData)) {
+            throw new Error(
+                `Crypto store migration failed verification: inbound group session ${session.sessionId} differs`,
+            );
+        }
+    });
+}
+
+/**
+ * Reads the given sessions from a store.
+ *
+ * @returns the pickled Olm sessions and the data of the inbound group sessions, in the same order as the sessions.
+ */
+async function readSessions(
+    store: CryptoStore,
+    olmSessions: ISessionInfo[],
+    inboundGroupSessions: ISession[],
+): Promise<{ olmSessions: (string | undefined)[]; inboundGroupSessions: unknown[] }> {
+    const result = {
+        olmSessions: [] as (string | undefined)[],
+        inboundGroupSessions: [] as unknown[],
+    };
+    await store.doTxn(
+        "readonly",
+        [IndexedDBCryptoStore.STORE_SESSIONS, IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS],
+        (txn) => {
+            olmSessions.forEach((session, i) =>
+                store.getEndToEndSession(
+                    session.deviceKey!,
+                    session.sessionId!,
+                    txn,
+                    (copy) => (result.olmSessions[i] = copy?.session),
+                ),
+            );
+            inboundGroupSessions.forEach((session, i) =>
+                store.getEndToEndInboundGroupSession(
+                    session.senderKey,
+                    session.sessionId,
+                    txn,
+                    (copy) => (result.inboundGroupSessions[i] = copy),
+                ),
+            );
+        },
+    );
+    return result;
+}
@@ -0,0 +1,202 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { gcmsiv } from "@noble/ciphers/aes";
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { bytesToUtf8, utf8ToBytes } from "@noble/ciphers/utils";
+import { randomBytes as webcryptoRandomBytes } from "@noble/ciphers/webcrypto";
+import { hkdf } from "@noble/hashes/hkdf";
+import { sha256 } from "@noble/hashes/sha2";
+import { base64, base64urlnopad } from "@scure/base";
+import { Logger, logger as defaultLogger } from "matrix-js-sdk/lib/logger";
+
+import AsyncStore from "./AsyncStore";
+
+// The version of the format of encrypted values, stored as their first byte.
+const VALUE_FORMAT_VERSION = 1;
+const VALUE_NONCE_LENGTH = 24;
+
+// Key names are encrypted deterministically, so that the same name always maps to the same backend key. AES-GCM-SIV
+// stays secure with a fixed nonce: it only reveals whether two names are equal.
+const KEY_NAME_NONCE = new Uint8Array(12);
+
+export interface EncryptedAsyncStoreOpts {
+    /**
+     * The prefix of the keys the encrypted store writes to the backend. Defaults to "encrypted.".
+     */
+    prefix?: string;
+
+    /**
+     * Returns `length` cryptographically secure random bytes. Defaults to `crypto.getRandomValues`, which needs a
+     * polyfill such as react-native-get-random-values on Hermes.
+     */
+    randomBytes?: (length: number) => Uint8Array;
+
+    /**
+     * The logger to report keys whose names can't be decrypted to. Defaults to the matrix-js-sdk logger.
+     */
+    logger?: Logger;
+}
+
+/**
+ * An AsyncStore that encrypts everything it writes to another AsyncStore.
+ *
+ * Values are encrypted with XChaCha20-Poly1305, bound to the name of their key so that they can't be swapped.
+ * Key names are encrypted with AES-GCM-SIV, so that room IDs, device keys and the like don't show in the backend
+ * either. Both ciphers are implemented in pure JS.
+ */
+export default class EncryptedAsyncStore implements AsyncStore {
+    private readonly prefix: string;
+    private readonly randomBytes: (length: number) => Uint8Array;
+    private readonly logger: Logger;
+    private readonly keyNameKey: Uint8Array;
+    private readonly valueKey: Uint8Array;
+
+    /**
+     * @param backend - The store to write the encrypted keys and values to.
+     * @param key - A 32-byte secret key, e.g. one kept in the platform keystore.
+     * @param opts - Further options.
+     */
+    public constructor(
+        private readonly backend: AsyncStore,
+        key: Uint8Array,
+        opts: EncryptedAsyncStoreOpts = {},
+    ) {
+        if (key.length !== 32) {
+            throw new Error(`EncryptedAsyncStore needs a 32-byte key, but got ${key.length} bytes`);
+        }
+        this.prefix = opts.prefix ?? "encrypted.";
+        this.randomBytes = opts.randomBytes ?? webcryptoRandomBytes;
+        this.logger = opts.logger ?? defaultLogger;
+        this.keyNameKey = hkdf(sha256, key, undefined, "matrix-rn-sdk key names", 32);
+        this.valueKey = hkdf(sha256, key, undefined, "matrix-rn-sdk values", 32);
+    }
+
+    /**
+     * Lists the keys of the store. Backend keys under the prefix whose names can't be decrypted, e.g. those of a store
+     * with another key or a half-written entry, are skipped and reported to the logger.
+     */
+    public async getAllKeys(): Promise<string[]> {
+        const keys: string[] = [];
+        for (const backendKey of await this.backend.getAllKeys()) {
+            if (!backendKey.startsWith(this.prefix)) {
+                continue;
+            }
+            try {
+                keys.push(this.decryptKeyName(backendKey));
+            } catch (e) {
+                this.logger.warn(`Skipping a key of the encrypted store: ${(e as Error).message}`);
+            }
+        }
+        return keys;
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        const value = await this.backend.getItem(this.encryptKeyName(key));
+        return value === null ? null : this.decryptValue(key, value);
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        await this.backend.setItem(this.encryptKeyName(key), this.encryptValue(key, value));
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        await this.backend.removeItem(this.encryptKeyName(key));
+    }
+
+    public async multiGet(keys: string[]): Promise<[string, string | null][]> {
+        const backendKeys = keys.map((k) => this.encryptKeyName(k));
+        const values = new Map<string, string | null>();
+        if (this.backend.multiGet) {
+            for (const [backendKey, value] of await this.backend.multiGet(backendKeys)) {
+                values.set(backendKey, value);
+            }
+        } else {
+            for (const backendKey of backendKeys) {
+                values.set(backendKey, await this.backend.getItem(backendKey));
+            }
+        }
+
+        return keys.map((key, i) => {
+            const value = values.get(backendKeys[i]) ?? null;
+            return [key, value === null ? null : this.decryptValue(key, value)];
+        });
+    }
+
+    public async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+        const encrypted = keyValuePairs.map(([key, value]): [string, string] => [
+            this.encryptKeyName(key),
+            this.encryptValue(key, value),
+        ]);
+        if (this.backend.multiSet) {
+            await this.backend.multiSet(encrypted);
+            return;
+        }
+        for (const [key, value] of encrypted) {
+            await this.backend.setItem(key, value);
+        }
+    }
+
+    public async multiRemove(keys: string[]): Promise<void> {
+        const backendKeys = keys.map((k) => this.encryptKeyName(k));
+        if (this.backend.multiRemove) {
+            await this.backend.multiRemove(backendKeys);
+            return;
+        }
+        for (const key of backendKeys) {
+            await this.backend.removeItem(key);
+        }
+    }
+
+    private encryptKeyName(key: string): string {
+        const ciphertext = gcmsiv(this.keyNameKey, KEY_NAME_NONCE).encrypt(utf8ToBytes(key));
+        return this.prefix + base64urlnopad.encode(ciphertext);
+    }
+
+    private decryptKeyName(backendKey: string): string {
+        try {
+            const ciphertext = base64urlnopad.decode(backendKey.slice(this.prefix.length));
+            return bytesToUtf8(gcmsiv(this.keyNameKey, KEY_NAME_NONCE).decrypt(ciphertext));
+        } catch (e) {
+            throw new Error(`Could not decrypt the name of key ${backendKey}: is the store key correct?`);
+        }
+    }
+
+    private encryptValue(key: string, value: string): string {
+        const nonce = this.randomBytes(VALUE_NONCE_LENGTH);
+        const ciphertext = xchacha20poly1305(this.valueKey, nonce, utf8ToBytes(key)).encrypt(utf8ToBytes(value));
+
+        const blob = new Uint8Array(1 + nonce.length + ciphertext.length);
+        blob[0] = VALUE_FORMAT_VERSION;
+        blob.set(nonce, 1);
+        blob.set(ciphertext, 1 + nonce.length);
+        return base64.encode(blob);
+    }
+
+    private decryptValue(key: string, value: string): string {
+        const blob = base64.decode(value);
+        if (blob[0] !== VALUE_FORMAT_VERSION) {
+            throw new Error(`Unknown format version ${blob[0]} for the value of ${key}`);
+        }
+        const nonce = blob.subarray(1, 1 + VALUE_NONCE_LENGTH);
+        const ciphertext = blob.subarray(1 + VALUE_NONCE_LENGTH);
+        try {
+            return bytesToUtf8(xchacha20poly1305(this.valueKey, nonce, utf8ToBytes(key)).decrypt(ciphertext));
+        } catch (e) {
+            throw new Error(`Could not decrypt the value of ${key}: it has been tampered with, or the key is wrong`);
+        }
+    }
+}
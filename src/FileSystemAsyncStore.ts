@@ -0,0 +1,114 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { promises as fs } from "fs";
+
+import AsyncStore from "./AsyncStore";
+
+/**
+ * An AsyncStore that keeps its keys in a JSON file, for tests and tooling that run in Node. It isn't exported from
+ * the package index, so that React Native bundles don't pull in `fs`: import it from
+ * "matrix-rn-sdk/dist/FileSystemAsyncStore".
+ *
+ * The whole file is read on first use and rewritten after every change, by writing a temporary file and renaming it
+ * over the old one, so a crash never leaves it half-written. Only one instance should use a file at a time.
+ */
+export default class FileSystemAsyncStore implements AsyncStore {
+    private data: Promise<Map<string, string>> | null = null;
+    private lastWrite: Promise<void> = Promise.resolve();
+
+    /**
+     * @param path - The file to keep the keys in. It is created on the first write.
+     */
+    public constructor(private readonly path: string) {}
+
+    private load(): Promise<Map<string, string>> {
+        if (!this.data) {
+            this.data = fs.readFile(this.path, "utf8").then(
+                (json) => {
+                    const data = new Map<string, string>();
+                    const parsed: Record<string, string> = JSON.parse(json);
+                    for (const key of Object.keys(parsed)) {
+                        data.set(key, parsed[key]);
+                    }
+                    return data;
+                },
+                (e: NodeJS.ErrnoException) => {
+                    if (e.code === "ENOENT") {
+                        return new Map<string, string>();
+                    }
+                    throw e;
+                },
+            );
+        }
+        return this.data;
+    }
+
+    private async update(change: (data: Map<string, string>) => void): Promise<void> {
+        const data = await this.load();
+        change(data);
+        const contents: Record<string, string> = {};
+        for (const [key, value] of data) {
+            contents[key] = value;
+        }
+        const json = JSON.stringify(contents);
+        // Write one snapshot at a time, so that an older snapshot never replaces a newer one.
+        const write = this.lastWrite.then(async () => {
+            const tmpPath = this.path + ".tmp";
+            await fs.writeFile(tmpPath, json, "utf8");
+            await fs.rename(tmpPath, this.path);
+        });
+        this.lastWrite = write.catch(() => {});
+        await write;
+    }
+
+    public async getAllKeys(): Promise<string[]> {
+        return [...(await this.load()).keys()];
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        return (await this.load()).get(key) ?? null;
+    }
+
+    public setItem(key: string, value: string): Promise<void> {
+        return this.update((data) => data.set(key, value));
+    }
+
+    public removeItem(key: string): Promise<void> {
+        return this.update((data) => data.delete(key));
+    }
+
+    public async multiGet(keys: string[]): Promise<[string, string | null][]> {
+        const data = await this.load();
+        return keys.map((key) => [key, data.get(key) ?? null]);
+    }
+
+    public multiSet(keyValuePairs: [string, string][]): Promise<void> {
+        return this.update((data) => {
+            for (const [key, value] of keyValuePairs) {
+                data.set(key, value);
+            }
+        });
+    }
+
+    public multiRemove(keys: string[]): Promise<void> {
+        return this.update((data) => {
+            for (const key of keys) {
+                data.delete(key);
+            }
+        });
+    }
+}
@@ -0,0 +1,169 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/**
+ * An in-memory manifest of the keys a store has written, grouped by category prefix, so that prefix and count
+ * queries don't have to enumerate the whole backend.
+ *
+ * Only keys under the root prefix are tracked. Keys that don't belong to any category are kept together, and are
+ * only looked at by queries for prefixes that aren't inside a category.
+ */
+export default class KeyIndex {
+    private categories = new Map<string, Set<string>>();
+    private uncategorised = new Set<string>();
+    // Sorted copies of the categories that have been listed in order, kept up to date as keys are added and removed.
+    private sortedCategories = new Map<string, string[]>();
+
+    /**
+     * @param rootPrefix - The prefix of every key to track.
+     * @param categoryPrefixes - The prefixes of the key categories that are queried on their own.
+     */
+    public constructor(
+        private readonly rootPrefix: string,
+        categoryPrefixes: string[],
+    ) {
+        for (const prefix of categoryPrefixes) {
+            this.categories.set(prefix, new Set());
+        }
+    }
+
+    /**
+     * Adds every key in `keys` that is under the root prefix, e.g. as listed by `AsyncStore.getAllKeys`.
+     */
+    public load(keys: string[]): void {
+        for (const key of keys) {
+            this.add(key);
+        }
+    }
+
+    public add(key: string): void {
+        const keys = this.getSetFor(key);
+        if (!keys || keys.has(key)) {
+            return;
+        }
+        keys.add(key);
+        const sorted = this.getSortedFor(key);
+        if (sorted) {
+            sorted.splice(lowerBound(sorted, key), 0, key);
+        }
+    }
+
+    public remove(key: string): void {
+        if (!this.getSetFor(key)?.delete(key)) {
+            return;
+        }
+        const sorted = this.getSortedFor(key);
+        if (sorted) {
+            sorted.splice(lowerBound(sorted, key), 1);
+        }
+    }
+
+    public has(key: string): boolean {
+        return this.getSetFor(key)?.has(key) ?? false;
+    }
+
+    /**
+     * Lists the known keys starting with `prefix`. This only looks at the category `prefix` falls in, if any.
+     */
+    public getKeysWithPrefix(prefix: string): string[] {
+        const category = this.getCategoryPrefix(prefix);
+        if (category !== null) {
+            const keys = this.categories.get(category)!;
+            return category === prefix ? [...keys] : [...keys].filter((k) => k.startsWith(prefix));
+        }
+
+        const result: string[] = [];
+        for (const keys of [...this.categories.values(), this.uncategorised]) {
+            for (const key of keys) {
+                if (key.startsWith(prefix)) {
+                    result.push(key);
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Lists, in order, up to `limit` keys of a category that sort after `after`, so that a category can be walked a
+     * page at a time without listing it whole each time.
+     *
+     * @param category - One of the category prefixes.
+     * @param after - The last key of the previous page, or null to start from the first key.
+     */
+    public getKeysAfter(category: string, after: string | null, limit: number): string[] {
+        const keys = this.categories.get(category);
+        if (!keys) {
+            throw new Error(`${category} is not a key category`);
+        }
+        let sorted = this.sortedCategories.get(category);
+        if (!sorted) {
+            sorted = [...keys].sort();
+            this.sortedCategories.set(category, sorted);
+        }
+        let start = after === null ? 0 : lowerBound(sorted, after);
+        if (sorted[start] === after) {
+            start++;
+        }
+        return sorted.slice(start, start + limit);
+    }
+
+    public countKeysWithPrefix(prefix: string): number {
+        const category = this.getCategoryPrefix(prefix);
+        if (category === prefix) {
+            return this.categories.get(category)!.size;
+        }
+        return this.getKeysWithPrefix(prefix).length;
+    }
+
+    private getSetFor(key: string): Set<string> | null {
+        if (!key.startsWith(this.rootPrefix)) {
+            return null;
+        }
+        const category = this.getCategoryPrefix(key);
+        return category === null ? this.uncategorised : this.categories.get(category)!;
+    }
+
+    private getSortedFor(key: string): string[] | undefined {
+        const category = this.getCategoryPrefix(key);
+        return category === null ? undefined : this.sortedCategories.get(category);
+    }
+
+    // Finds the longest category prefix that `key` starts with.
+    private getCategoryPrefix(key: string): string | null {
+        let result: string | null = null;
+        for (const prefix of this.categories.keys()) {
+            if (key.startsWith(prefix) && (result === null || prefix.length > result.length)) {
+                result = prefix;
+            }
+        }
+        return result;
+    }
+}
+
+// Finds the index of the first key in `sorted` that isn't less than `key`.
+function lowerBound(sorted: string[], key: string): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (sorted[mid] < key) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
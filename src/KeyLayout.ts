@@ -0,0 +1,273 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { OutgoingRoomKeyRequest, SecretStorePrivateKeys } from "matrix-js-sdk/lib/crypto/store/base";
+
+/**
+ * The names of the keys a crypto store writes, all under a common root prefix.
+ */
+export default class KeyLayout {
+    public readonly outgoingKeyRequestPrefix: string;
+    public readonly outgoingKeyRequestByBodyPrefix: string;
+    public readonly outgoingKeyRequestByStatePrefix: string;
+    public readonly outgoingKeyRequestByTargetPrefix: string;
+    public readonly secretStorePrivateKeyPrefix: string;
+    public readonly endToEndSessionPrefix: string;
+    public readonly endToEndSessionProblemsPrefix: string;
+    public readonly inboundSessionPrefix: string;
+    public readonly inboundSessionWithheldPrefix: string;
+    public readonly roomsPrefix: string;
+    public readonly sharedHistoryInboundSessionsPrefix: string;
+    public readonly parkedSharedHistoryPrefix: string;
+    public readonly chunksPrefix: string;
+    public readonly backupMarkerPrefix: string;
+    public readonly backupQueuePrefix: string;
+    public readonly journalPrefix: string;
+    public readonly secretJournalPrefix: string;
+
+    public readonly endToEndAccount: string;
+    public readonly crossSigningKeys: string;
+    public readonly notifiedErrorDevices: string;
+    public readonly deviceData: string;
+    // Before schema version 3, one map of the sessions needing backup. Now replaced by the backup markers and queue.
+    public readonly sessionsNeedingBackup: string;
+    public readonly endToEndMigrationState: string;
+    public readonly endToEndMigrationPosition: string;
+    // Written by startup(), so that containsData() can tell an existing store from a fresh install.
+    public readonly storeCreated: string;
+    public readonly schemaVersion: string;
+    // Present while importArchive() is writing the entries of an archive, so that an interrupted import can be retried.
+    public readonly importPending: string;
+    // The lease of the lock shared by the JS contexts that use the store. See StoreLock.
+    public readonly lock: string;
+    // A random ID, replaced whenever a JS context that shares the store writes to it, so that the others notice.
+    public readonly lastChange: string;
+
+    /**
+     * @param root - The prefix of every key, e.g. "crypto.".
+     */
+    public constructor(public readonly root: string) {
+        this.outgoingKeyRequestPrefix = root + "outgoingkeyrequest/";
+        this.outgoingKeyRequestByBodyPrefix = root + "outgoingkeyrequest.bybody/";
+        this.outgoingKeyRequestByStatePrefix = root + "outgoingkeyrequest.bystate/";
+        this.outgoingKeyRequestByTargetPrefix = root + "outgoingkeyrequest.bytarget/";
+        this.secretStorePrivateKeyPrefix = root + "ssss_cache.";
+        this.endToEndSessionPrefix = root + "sessions/";
+        this.endToEndSessionProblemsPrefix = root + "session.problems/";
+        this.inboundSessionPrefix = root + "inboundgroupsessions/";
+        this.inboundSessionWithheldPrefix = root + "inboundgroupsessions.withheld/";
+        this.roomsPrefix = root + "rooms/";
+        this.sharedHistoryInboundSessionsPrefix = root + "sharedhistory.inboundgroupsessions/";
+        this.parkedSharedHistoryPrefix = root + "sharedhistory.parked/";
+        this.chunksPrefix = root + "chunks/";
+        this.backupMarkerPrefix = root + "backup.sessions/";
+        this.backupQueuePrefix = root + "backup.queue/";
+        this.journalPrefix = root + "journal/";
+        this.secretJournalPrefix = root + "journal.secret/";
+
+        this.endToEndAccount = root + "account";
+        this.crossSigningKeys = root + "cross_signing_keys";
+        this.notifiedErrorDevices = root + "notified_error_devices";
+        this.deviceData = root + "device_data";
+        this.sessionsNeedingBackup = root + "sessionsneedingbackup";
+        this.endToEndMigrationState = root + "migration";
+        this.endToEndMigrationPosition = root + "migration.position";
+        this.storeCreated = root + "created";
+        this.schemaVersion = root + "schema_version";
+        this.importPending = root + "import_pending";
+        this.lock = root + "lock";
+        this.lastChange = root + "last_change";
+    }
+
+    /**
+     * The key prefixes that are queried on their own, and so get their own category in the key index.
+     */
+    public get categoryPrefixes(): string[] {
+        return [
+            this.outgoingKeyRequestPrefix,
+            this.outgoingKeyRequestByBodyPrefix,
+            this.outgoingKeyRequestByStatePrefix,
+            this.outgoingKeyRequestByTargetPrefix,
+            this.secretStorePrivateKeyPrefix,
+            this.endToEndSessionPrefix,
+            this.endToEndSessionProblemsPrefix,
+            this.inboundSessionPrefix,
+            this.inboundSessionWithheldPrefix,
+            this.roomsPrefix,
+            this.sharedHistoryInboundSessionsPrefix,
+            this.parkedSharedHistoryPrefix,
+            this.chunksPrefix,
+            this.backupMarkerPrefix,
+            this.backupQueuePrefix,
+            this.journalPrefix,
+            this.secretJournalPrefix,
+        ];
+    }
+
+    /**
+     * Whether `key` is one that the JS contexts sharing the store coordinate through, rather than part of its data.
+     */
+    public isSharingKey(key: string): boolean {
+        return key === this.lock || key === this.lastChange;
+    }
+
+    /**
+     * Whether `key` holds a secret that can be used to impersonate the device or user: the Olm account, the
+     * cross-signing keys, a cached secret storage key or a journal of writes of those, or a chunk of one of those.
+     */
+    public isSecretKey(key: string): boolean {
+        if (key.startsWith(this.chunksPrefix)) {
+            // Chunk keys hold the URI-encoded key of their value, and encoding a string encodes each character alone.
+            return (
+                key.startsWith(this.prefixChunks(this.endToEndAccount)) ||
+                key.startsWith(this.prefixChunks(this.crossSigningKeys)) ||
+                key.startsWith(this.chunksPrefix + encodeURIComponent(this.secretStorePrivateKeyPrefix)) ||
+                key.startsWith(this.chunksPrefix + encodeURIComponent(this.secretJournalPrefix))
+            );
+        }
+        return (
+            key === this.endToEndAccount ||
+            key === this.crossSigningKeys ||
+            key.startsWith(this.secretStorePrivateKeyPrefix) ||
+            key.startsWith(this.secretJournalPrefix)
+        );
+    }
+
+    public keyOutgoingKeyRequest(requestId: string): string {
+        return this.outgoingKeyRequestPrefix + encodeURIComponent(requestId);
+    }
+
+    // The secondary indexes of outgoing room key requests hold one key per indexed request, ending with its request
+    // ID.
+
+    public prefixOutgoingKeyRequestByBody(roomId: string, sessionId: string): string {
+        return (
+            this.outgoingKeyRequestByBodyPrefix + encodeURIComponent(roomId) + "/" + encodeURIComponent(sessionId) + "/"
+        );
+    }
+
+    public prefixOutgoingKeyRequestByState(state: number): string {
+        return this.outgoingKeyRequestByStatePrefix + state + "/";
+    }
+
+    public prefixOutgoingKeyRequestByTarget(userId: string, deviceId: string): string {
+        return (
+            this.outgoingKeyRequestByTargetPrefix +
+            encodeURIComponent(userId) +
+            "/" +
+            encodeURIComponent(deviceId) +
+            "/"
+        );
+    }
+
+    public keysOutgoingKeyRequestIndexes(request: OutgoingRoomKeyRequest): string[] {
+        const requestId = encodeURIComponent(request.requestId);
+        return [
+            this.prefixOutgoingKeyRequestByBody(request.requestBody.room_id, request.requestBody.session_id) +
+                requestId,
+            this.prefixOutgoingKeyRequestByState(request.state) + requestId,
+            ...request.recipients.map((r) => this.prefixOutgoingKeyRequestByTarget(r.userId, r.deviceId) + requestId),
+        ];
+    }
+
+    public keySecretStorePrivateKey<K extends keyof SecretStorePrivateKeys>(type: K): string {
+        return this.secretStorePrivateKeyPrefix + encodeURIComponent(`${type}`);
+    }
+
+    public prefixEndToEndSession(deviceKey: string): string {
+        return this.endToEndSessionPrefix + encodeURIComponent(deviceKey) + "/";
+    }
+
+    public keyEndToEndSession(deviceKey: string, sessionKey: string): string {
+        return this.prefixEndToEndSession(deviceKey) + encodeURIComponent(sessionKey);
+    }
+
+    public keyEndToEndSessionProblems(deviceKey: string): string {
+        return this.endToEndSessionProblemsPrefix + encodeURIComponent(deviceKey);
+    }
+
+    public keyEndToEndInboundGroupSession(senderKey: string, sessionId: string): string {
+        return this.inboundSessionPrefix + encodeURIComponent(senderKey) + "/" + encodeURIComponent(sessionId);
+    }
+
+    /**
+     * The inverse of {@link KeyLayout#keyEndToEndInboundGroupSession}.
+     */
+    public parseEndToEndInboundGroupSessionKey(key: string): { senderKey: string; sessionId: string } {
+        const [senderKey, sessionId] = key.slice(this.inboundSessionPrefix.length).split("/");
+        return { senderKey: decodeURIComponent(senderKey), sessionId: decodeURIComponent(sessionId) };
+    }
+
+    public keyEndToEndInboundGroupSessionWithheld(senderKey: string, sessionId: string): string {
+        return this.inboundSessionWithheldPrefix + encodeURIComponent(senderKey) + "/" + encodeURIComponent(sessionId);
+    }
+
+    public keyEndToEndRoom(roomId: string): string {
+        return this.roomsPrefix + encodeURIComponent(roomId);
+    }
+
+    public keySharedHistoryInboundGroupSessions(roomId: string): string {
+        return this.sharedHistoryInboundSessionsPrefix + encodeURIComponent(roomId);
+    }
+
+    public keyParkedSharedHistory(roomId: string): string {
+        return this.parkedSharedHistoryPrefix + encodeURIComponent(roomId);
+    }
+
+    // Each inbound group session that needs backing up has a marker holding its position in the backup queue, and a
+    // queue entry under that position. Positions are zero-padded so that queue keys sort in order.
+
+    public keyBackupMarker(senderKey: string, sessionId: string): string {
+        return this.backupMarkerPrefix + encodeURIComponent(senderKey) + "/" + encodeURIComponent(sessionId);
+    }
+
+    public keyBackupQueueEntry(position: number): string {
+        return this.backupQueuePrefix + ("0".repeat(16) + position).slice(-16);
+    }
+
+    public parseBackupQueuePosition(queueKey: string): number {
+        return Number(queueKey.slice(this.backupQueuePrefix.length));
+    }
+
+    // Writes that must happen together are recorded in a journal first. Journals of writes that include secrets are
+    // kept apart, so that they can be kept in the secure store. IDs are zero-padded so that journals sort in order.
+
+    public keyJournal(id: number, secret: boolean): string {
+        return (secret ? this.secretJournalPrefix : this.journalPrefix) + ("0".repeat(16) + id).slice(-16);
+    }
+
+    // Values too large to store under one key are split across chunk keys. Each write of such a value gets a new
+    // generation number, so that its chunks never overwrite those of the value it replaces.
+
+    public prefixChunks(key: string): string {
+        return this.chunksPrefix + encodeURIComponent(key) + "/";
+    }
+
+    public keyChunk(key: string, generation: number, index: number): string {
+        return this.prefixChunks(key) + generation + "/" + index;
+    }
+
+    /**
+     * The key of the value that a chunk key holds part of.
+     */
+    public parseChunkedKey(chunkKey: string): string {
+        return decodeURIComponent(chunkKey.slice(this.chunksPrefix.length).split("/")[0]);
+    }
+
+    public parseChunkGeneration(chunkKey: string): number {
+        return Number(chunkKey.slice(this.chunksPrefix.length).split("/")[1]);
+    }
+}
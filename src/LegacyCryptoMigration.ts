@@ -0,0 +1,205 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { ISessionInfo, MigrationState, SessionExtended } from "matrix-js-sdk/lib/crypto/store/base";
+
+import AsyncCryptoStore, { MigrationPosition, SessionPage } from "./AsyncCryptoStore";
+
+export type LegacyCryptoMigrationPhase = "base_data" | "olm_sessions" | "inbound_group_sessions";
+
+export interface LegacyCryptoMigrationProgress {
+    phase: LegacyCryptoMigrationPhase;
+    done: number;
+    total: number;
+}
+
+/**
+ * A session that was left in the legacy store because it couldn't be migrated.
+ */
+export interface UnmigratableRecord {
+    phase: "olm_sessions" | "inbound_group_sessions";
+    // The device key of an Olm session or the sender key of an inbound group session, and the session ID,
+    // URI-encoded and separated by a slash.
+    key: string;
+    reason: string;
+}
+
+/**
+ * Moves the legacy crypto data into the new crypto store, e.g. with the `Migration` functions of
+ * matrix-sdk-crypto-wasm. Each handler must be safe to call again with data it has already migrated, as a batch is
+ * migrated again if the app is killed before its progress is saved.
+ */
+export interface LegacyCryptoMigrationHandlers {
+    migrateBaseData: () => Promise<void>;
+    migrateOlmSessions: (sessions: ISessionInfo[]) => Promise<void>;
+    migrateInboundGroupSessions: (sessions: SessionExtended[]) => Promise<void>;
+}
+
+export interface LegacyCryptoMigrationOpts {
+    onProgress?: (progress: LegacyCryptoMigrationProgress) => void;
+
+    /**
+     * Called for each session that can't be migrated. Such sessions are left in the legacy store.
+     */
+    onUnmigratable?: (record: UnmigratableRecord) => void;
+
+    /**
+     * The number of sessions to migrate at once. Defaults to 50.
+     */
+    batchSize?: number;
+}
+
+interface Phase<T> {
+    name: MigrationPosition["phase"];
+    count: () => Promise<number>;
+    getPage: (cursor: string | null, limit: number) => Promise<SessionPage<T>>;
+    // Returns why a session can't be migrated, if it can't.
+    check: (session: T) => string | null;
+    keyOf: (session: T) => string;
+    migrate: (sessions: T[]) => Promise<void>;
+    delete: (sessions: T[]) => Promise<void>;
+}
+
+/**
+ * Migrates the crypto data of a started legacy crypto store, going through the same steps, and recording the same
+ * migration states, as matrix-js-sdk's own migration. Sessions are walked in a stable order, and the position of the
+ * migration is saved after each batch, so that a migration that is interrupted resumes where it stopped. Migrated
+ * sessions are deleted from the legacy store.
+ *
+ * @param store - The legacy crypto store.
+ * @param handlers - The functions that move the data into the new store.
+ * @param opts - Further options.
+ */
+export async function migrateLegacyCryptoStore(
+    store: AsyncCryptoStore,
+    handlers: LegacyCryptoMigrationHandlers,
+    opts: LegacyCryptoMigrationOpts = {},
+): Promise<void> {
+    const batchSize = opts.batchSize ?? 50;
+    let state = await store.getMigrationState();
+
+    if (state === MigrationState.NOT_STARTED) {
+        opts.onProgress?.({ phase: "base_data", done: 0, total: 1 });
+        await handlers.migrateBaseData();
+        state = MigrationState.INITIAL_DATA_MIGRATED;
+        await store.setMigrationState(state);
+        opts.onProgress?.({ phase: "base_data", done: 1, total: 1 });
+    }
+
+    if (state === MigrationState.INITIAL_DATA_MIGRATED) {
+        await migratePhase<ISessionInfo>(
+            store,
+            {
+                name: "olm_sessions",
+                count: async () => {
+                    let count = 0;
+                    await store.doTxn("readonly", [], (txn) =>
+                        store.countEndToEndSessions(txn, (result) => (count = result)),
+                    );
+                    return count;
+                },
+                getPage: (cursor, limit) => store.getEndToEndSessionsPage(cursor, limit),
+                check: (session) =>
+                    typeof session.deviceKey === "string" && typeof session.session === "string"
+                        ? null
+                        : "The session has no device key or pickle",
+                keyOf: (session) => sessionKey(session.deviceKey, session.sessionId),
+                migrate: handlers.migrateOlmSessions,
+                delete: (sessions) => store.deleteEndToEndSessionsBatch(sessions),
+            },
+            batchSize,
+            opts,
+        );
+        state = MigrationState.OLM_SESSIONS_MIGRATED;
+        await store.setMigrationState(state);
+    }
+
+    if (state === MigrationState.OLM_SESSIONS_MIGRATED) {
+        await migratePhase<SessionExtended>(
+            store,
+            {
+                name: "inbound_group_sessions",
+                count: () => store.countEndToEndInboundGroupSessions(),
+                getPage: (cursor, limit) => store.getEndToEndInboundGroupSessionsPage(cursor, limit),
+                check: (session) =>
+                    typeof session.sessionData?.session === "string" && typeof session.sessionData.room_id === "string"
+                        ? null
+                        : "The session has no pickle or room ID",
+                keyOf: (session) => sessionKey(session.senderKey, session.sessionId),
+                migrate: handlers.migrateInboundGroupSessions,
+                delete: (sessions) => store.deleteEndToEndInboundGroupSessionsBatch(sessions),
+            },
+            batchSize,
+            opts,
+        );
+        state = MigrationState.MEGOLM_SESSIONS_MIGRATED;
+        await store.setMigrationState(state);
+    }
+}
+
+function sessionKey(senderOrDeviceKey: string | undefined, sessionId: string | undefined): string {
+    return encodeURIComponent(`${senderOrDeviceKey}`) + "/" + encodeURIComponent(`${sessionId}`);
+}
+
+async function migratePhase<T>(
+    store: AsyncCryptoStore,
+    phase: Phase<T>,
+    batchSize: number,
+    opts: LegacyCryptoMigrationOpts,
+): Promise<void> {
+    const saved = await store.getMigrationPosition();
+    const position: MigrationPosition =
+        saved?.phase === phase.name ? saved : { phase: phase.name, cursor: null, done: 0, skipped: 0 };
+    // Migrated sessions are deleted, but skipped ones are still counted.
+    const total = position.done + (await phase.count()) - position.skipped;
+    opts.onProgress?.({ phase: phase.name, done: position.done, total });
+
+    let page: SessionPage<T>;
+    do {
+        page = await phase.getPage(position.cursor, batchSize);
+
+        const migratable: T[] = [];
+        const unmigratable: UnmigratableRecord[] = page.unreadable.map(({ key, error }) => ({
+            phase: phase.name,
+            key,
+            reason: error.message,
+        }));
+        for (const session of page.sessions) {
+            const reason = phase.check(session);
+            if (reason === null) {
+                migratable.push(session);
+            } else {
+                unmigratable.push({ phase: phase.name, key: phase.keyOf(session), reason });
+            }
+        }
+
+        if (migratable.length > 0) {
+            await phase.migrate(migratable);
+        }
+        unmigratable.forEach((record) => opts.onUnmigratable?.(record));
+
+        position.cursor = page.cursor;
+        position.done += migratable.length + unmigratable.length;
+        position.skipped += unmigratable.length;
+        await store.setMigrationPosition(position);
+        if (migratable.length > 0) {
+            await phase.delete(migratable);
+        }
+        opts.onProgress?.({ phase: phase.name, done: position.done, total });
+    } while (page.cursor !== null);
+
+    await store.setMigrationPosition(null);
+}
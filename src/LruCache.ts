@@ -0,0 +1,137 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+/**
+ * How well a cache is doing, as returned by {@link LruCache#getStats}.
+ */
+export interface LruCacheStats {
+    hits: number;
+    misses: number;
+    // The entries dropped to make room for others.
+    evictions: number;
+    entries: number;
+    // The total length of the cached keys and values, in characters.
+    size: number;
+}
+
+/**
+ * A cache of string values, e.g. those of an AsyncStore, that drops the least recently used values once their total
+ * length exceeds its maximum size. It can also remember that a key has no value.
+ *
+ * Reads that miss must pass the version the cache had before they started reading the backend to
+ * {@link LruCache#fill}, so that a value read before a concurrent write isn't cached over the written one.
+ */
+export default class LruCache {
+    // In order of use, least recently used first.
+    private entries = new Map<string, string | null>();
+    private size = 0;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+    private _version = 0;
+
+    /**
+     * @param maxSize - The maximum total length of the cached keys and values, in characters.
+     */
+    public constructor(private readonly maxSize: number) {}
+
+    /**
+     * Incremented by every change other than {@link LruCache#fill}.
+     */
+    public get version(): number {
+        return this._version;
+    }
+
+    /**
+     * @returns the cached value of `key`, null if it is known to have none, or undefined if it isn't cached.
+     */
+    public get(key: string): string | null | undefined {
+        const value = this.entries.get(key);
+        if (value === undefined) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        // Move it to the end.
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    /**
+     * Caches a value read from the backend, unless the cache has changed since `version`.
+     */
+    public fill(key: string, value: string | null, version: number): void {
+        if (version === this._version) {
+            this.put(key, value);
+        }
+    }
+
+    /**
+     * Caches a value written to the backend.
+     */
+    public set(key: string, value: string | null): void {
+        this._version++;
+        this.put(key, value);
+    }
+
+    public delete(key: string): void {
+        this._version++;
+        this.remove(key);
+    }
+
+    public clear(): void {
+        this._version++;
+        this.entries.clear();
+        this.size = 0;
+    }
+
+    public getStats(): LruCacheStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            entries: this.entries.size,
+            size: this.size,
+        };
+    }
+
+    private put(key: string, value: string | null): void {
+        this.remove(key);
+        const size = key.length + (value?.length ?? 0);
+        if (size > this.maxSize) {
+            return;
+        }
+        this.entries.set(key, value);
+        this.size += size;
+        for (const [oldKey, oldValue] of this.entries) {
+            if (this.size <= this.maxSize) {
+                break;
+            }
+            this.entries.delete(oldKey);
+            this.size -= oldKey.length + (oldValue?.length ?? 0);
+            this.evictions++;
+        }
+    }
+
+    private remove(key: string): void {
+        const value = this.entries.get(key);
+        if (value !== undefined) {
+            this.entries.delete(key);
+            this.size -= key.length + (value?.length ?? 0);
+        }
+    }
+}
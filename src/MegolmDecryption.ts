@@ -0,0 +1,170 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { InboundGroupSessionData } from "matrix-js-sdk/lib/crypto/OlmDevice";
+import { CryptoStore, IWithheld } from "matrix-js-sdk/lib/crypto/store/base";
+import { IndexedDBCryptoStore } from "matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store";
+import { IContent } from "matrix-js-sdk/lib/models/event";
+
+const MEGOLM_ALGORITHM = "m.megolm.v1.aes-sha2";
+
+// The pickle key of matrix-js-sdk's OlmDevice, unless the app set its own.
+const DEFAULT_PICKLE_KEY = "DEFAULT_KEY";
+
+/**
+ * The parts of an Olm.InboundGroupSession from @matrix-org/olm that this package uses.
+ */
+export interface OlmInboundGroupSessionLike {
+    unpickle(key: string, pickle: string): void;
+    decrypt(message: string): { plaintext: string; message_index: number };
+    // eslint-disable-next-line @typescript-eslint/naming-convention -- Olm's name
+    first_known_index(): number;
+    free(): void;
+}
+
+/**
+ * The parts of the @matrix-org/olm module that this package uses.
+ */
+export interface OlmLike {
+    InboundGroupSession: new () => OlmInboundGroupSessionLike;
+}
+
+/**
+ * An encrypted event, e.g. as fetched for a push notification.
+ */
+export interface EncryptedEventLike {
+    room_id: string;
+    content: IContent;
+}
+
+export interface DecryptedMegolmEvent {
+    // The decrypted event: its type, content and the room ID it was encrypted for.
+    payload: { type: string; content: IContent; room_id: string };
+    // The curve25519 key of the device that sent the event.
+    senderKey: string;
+    messageIndex: number;
+    // The keys that the sender of the session claimed to own, e.g. its ed25519 key.
+    keysClaimed: Record<string, string>;
+    forwardingCurve25519KeyChain: string[];
+    // Whether the session came from a source that can't be fully trusted, e.g. a key backup.
+    untrusted: boolean;
+}
+
+export interface DecryptMegolmEventOpts {
+    /**
+     * The Olm module. Defaults to `global.Olm`, as set up for matrix-js-sdk.
+     */
+    olm?: OlmLike;
+
+    /**
+     * The key the sessions were pickled with. Defaults to matrix-js-sdk's default.
+     */
+    pickleKey?: string;
+}
+
+/**
+ * @returns `olm`, or else the Olm module set up for matrix-js-sdk as `global.Olm`, if any.
+ */
+export function getOlm(olm?: OlmLike): OlmLike | undefined {
+    return olm ?? (global as unknown as { Olm?: OlmLike }).Olm;
+}
+
+/**
+ * Reads the index of the first message that a pickled inbound group session can decrypt.
+ *
+ * @param olm - The Olm module.
+ * @param pickle - The pickled session, as kept in a crypto store.
+ * @param pickleKey - The key the session was pickled with. Defaults to matrix-js-sdk's default.
+ */
+export function getFirstKnownIndex(olm: OlmLike, pickle: string, pickleKey = DEFAULT_PICKLE_KEY): number {
+    const session = new olm.InboundGroupSession();
+    try {
+        session.unpickle(pickleKey, pickle);
+        return session.first_known_index();
+    } finally {
+        session.free();
+    }
+}
+
+/**
+ * Decrypts one megolm-encrypted event with a session from a crypto store, without starting a client. Meant for
+ * background tasks such as decrypting push notifications, with an {@link AsyncCryptoStore} opened read-only: nothing
+ * is written to the store, so the app's replay protection doesn't see the event.
+ *
+ * @param store - The crypto store holding the session.
+ * @param event - The encrypted event.
+ * @param opts - Further options.
+ * @returns the decrypted event, with what is known of its sender.
+ * @throws if the event isn't megolm-encrypted, the session is unknown or was withheld, or the event doesn't decrypt
+ *     to an event of the same room.
+ */
+export async function decryptMegolmEvent(
+    store: CryptoStore,
+    event: EncryptedEventLike,
+    opts: DecryptMegolmEventOpts = {},
+): Promise<DecryptedMegolmEvent> {
+    const { algorithm, sender_key: senderKey, session_id: sessionId, ciphertext } = event.content;
+    if (algorithm !== MEGOLM_ALGORITHM) {
+        throw new Error(`Can't decrypt an event encrypted with ${algorithm}`);
+    }
+    const olm = getOlm(opts.olm);
+    if (!olm) {
+        throw new Error("Olm is not available: pass it as the olm option, or set global.Olm");
+    }
+
+    let sessionData: InboundGroupSessionData | null = null;
+    let withheld: IWithheld | null = null;
+    await store.doTxn(
+        "readonly",
+        [IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS, IndexedDBCryptoStore.STORE_INBOUND_GROUP_SESSIONS_WITHHELD],
+        (txn) => {
+            store.getEndToEndInboundGroupSession(senderKey, sessionId, txn, (data, withheldData) => {
+                sessionData = data;
+                withheld = withheldData;
+            });
+        },
+    );
+    // TypeScript doesn't see the assignments in the callback.
+    const data = sessionData as InboundGroupSessionData | null;
+    if (!data) {
+        const reason = (withheld as IWithheld | null)?.reason;
+        throw new Error(`Unknown megolm session ${senderKey}|${sessionId}` + (reason ? `: ${reason}` : ""));
+    }
+    if (data.room_id !== event.room_id) {
+        throw new Error(`The megolm session ${senderKey}|${sessionId} belongs to another room`);
+    }
+
+    const session = new olm.InboundGroupSession();
+    try {
+        session.unpickle(opts.pickleKey ?? DEFAULT_PICKLE_KEY, data.session);
+        const { plaintext, message_index: messageIndex } = session.decrypt(ciphertext);
+        const payload = JSON.parse(plaintext) as DecryptedMegolmEvent["payload"];
+        // Stops a server from replaying an event of another room, as matrix-js-sdk does.
+        if (payload.room_id !== event.room_id) {
+            throw new Error(`The event was encrypted for the room ${payload.room_id}, not ${event.room_id}`);
+        }
+        return {
+            payload,
+            senderKey,
+            messageIndex,
+            keysClaimed: data.keysClaimed ?? {},
+            forwardingCurve25519KeyChain: data.forwardingCurve25519KeyChain ?? [],
+            untrusted: !!data.untrusted,
+        };
+    } finally {
+        session.free();
+    }
+}
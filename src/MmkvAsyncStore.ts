@@ -0,0 +1,70 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import AsyncStore from "./AsyncStore";
+
+/**
+ * The parts of a react-native-mmkv `MMKV` instance that {@link MmkvAsyncStore} uses.
+ */
+export interface MMKVLike {
+    getAllKeys(): string[];
+    getString(key: string): string | undefined;
+    set(key: string, value: string): void;
+    delete(key: string): void;
+}
+
+/**
+ * An AsyncStore over react-native-mmkv. MMKV is synchronous and much faster than AsyncStorage, so batch operations
+ * are simple loops.
+ */
+export default class MmkvAsyncStore implements AsyncStore {
+    /**
+     * @param mmkv - The MMKV instance to keep the keys in, e.g. `new MMKV({ id: "crypto" })`.
+     */
+    public constructor(private readonly mmkv: MMKVLike) {}
+
+    public async getAllKeys(): Promise<string[]> {
+        return this.mmkv.getAllKeys();
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        return this.mmkv.getString(key) ?? null;
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        this.mmkv.set(key, value);
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        this.mmkv.delete(key);
+    }
+
+    public async multiGet(keys: string[]): Promise<[string, string | null][]> {
+        return keys.map((key) => [key, this.mmkv.getString(key) ?? null]);
+    }
+
+    public async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+        for (const [key, value] of keyValuePairs) {
+            this.mmkv.set(key, value);
+        }
+    }
+
+    public async multiRemove(keys: string[]): Promise<void> {
+        for (const key of keys) {
+            this.mmkv.delete(key);
+        }
+    }
+}
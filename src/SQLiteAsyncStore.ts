@@ -0,0 +1,145 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import AsyncStore from "./AsyncStore";
+
+/**
+ * The parts of a react-native-sqlite-storage `SQLiteDatabase`, opened with promises enabled, that
+ * {@link SQLiteAsyncStore} uses.
+ */
+export interface SQLiteDatabaseLike {
+    executeSql(
+        statement: string,
+        params?: string[],
+    ): Promise<[{ rows: { length: number; item(index: number): { key: string; value: string } } }]>;
+}
+
+// SQLite limits the number of parameters in one statement, to 999 in older versions.
+const MAX_PARAMS = 900;
+
+/**
+ * An AsyncStore over a key/value table in an SQLite database, e.g. one opened with react-native-sqlite-storage.
+ * The table is created on first use.
+ */
+export default class SQLiteAsyncStore implements AsyncStore {
+    private tableCreated: Promise<void> | null = null;
+
+    /**
+     * @param db - The database to keep the table in.
+     * @param table - The name of the table. Defaults to "kv".
+     */
+    public constructor(
+        private readonly db: SQLiteDatabaseLike,
+        private readonly table = "kv",
+    ) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+            throw new Error(`Invalid SQLite table name: ${table}`);
+        }
+    }
+
+    private async execute(statement: string, params: string[] = []): Promise<{ key: string; value: string }[]> {
+        if (!this.tableCreated) {
+            this.tableCreated = this.db
+                .executeSql(
+                    `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL)`,
+                )
+                .then(() => {});
+            // Let a later call retry if creating the table failed.
+            this.tableCreated.catch(() => (this.tableCreated = null));
+        }
+        await this.tableCreated;
+        const [result] = await this.db.executeSql(statement, params);
+        const rows: { key: string; value: string }[] = [];
+        for (let i = 0; i < result.rows.length; i++) {
+            rows.push(result.rows.item(i));
+        }
+        return rows;
+    }
+
+    public async getAllKeys(): Promise<string[]> {
+        const rows = await this.execute(`SELECT key FROM ${this.table}`);
+        return rows.map((row) => row.key);
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        const rows = await this.execute(`SELECT key, value FROM ${this.table} WHERE key = ?`, [key]);
+        return rows.length ? rows[0].value : null;
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        await this.execute(`INSERT OR REPLACE INTO ${this.table} (key, value) VALUES (?, ?)`, [key, value]);
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        await this.execute(`DELETE FROM ${this.table} WHERE key = ?`, [key]);
+    }
+
+    public async multiGet(keys: string[]): Promise<[string, string | null][]> {
+        const values = new Map<string, string>();
+        for (let i = 0; i < keys.length; i += MAX_PARAMS) {
+            const batch = keys.slice(i, i + MAX_PARAMS);
+            const rows = await this.execute(
+                `SELECT key, value FROM ${this.table} WHERE key IN (${placeholders(batch.length)})`,
+                batch,
+            );
+            for (const row of rows) {
+                values.set(row.key, row.value);
+            }
+        }
+        return keys.map((key) => [key, values.get(key) ?? null]);
+    }
+
+    public async getItemSizes(keys: string[]): Promise<(number | null)[]> {
+        const sizes = new Map<string, number>();
+        for (let i = 0; i < keys.length; i += MAX_PARAMS) {
+            const batch = keys.slice(i, i + MAX_PARAMS);
+            const rows = await this.execute(
+                `SELECT key, length(value) AS value FROM ${this.table} WHERE key IN (${placeholders(batch.length)})`,
+                batch,
+            );
+            for (const row of rows) {
+                sizes.set(row.key, Number(row.value));
+            }
+        }
+        return keys.map((key) => sizes.get(key) ?? null);
+    }
+
+    public async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+        const batchSize = MAX_PARAMS / 2;
+        for (let i = 0; i < keyValuePairs.length; i += batchSize) {
+            const batch = keyValuePairs.slice(i, i + batchSize);
+            const params: string[] = [];
+            for (const [key, value] of batch) {
+                params.push(key, value);
+            }
+            await this.execute(
+                `INSERT OR REPLACE INTO ${this.table} (key, value) VALUES ${batch.map(() => "(?, ?)").join(", ")}`,
+                params,
+            );
+        }
+    }
+
+    public async multiRemove(keys: string[]): Promise<void> {
+        for (let i = 0; i < keys.length; i += MAX_PARAMS) {
+            const batch = keys.slice(i, i + MAX_PARAMS);
+            await this.execute(`DELETE FROM ${this.table} WHERE key IN (${placeholders(batch.length)})`, batch);
+        }
+    }
+}
+
+function placeholders(count: number): string {
+    return new Array(count).fill("?").join(", ");
+}
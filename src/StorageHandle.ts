@@ -0,0 +1,252 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import setGlobalVars from "indexeddbshim/dist/indexeddbshim-noninvasive";
+import { CryptoStore } from "matrix-js-sdk/lib/crypto/store/base";
+import { IndexedDBCryptoStore } from "matrix-js-sdk/lib/crypto/store/indexeddb-crypto-store";
+import { MemoryCryptoStore } from "matrix-js-sdk/lib/crypto/store/memory-crypto-store";
+import { Logger, logger as defaultLogger } from "matrix-js-sdk/lib/logger";
+import { setCryptoStoreFactory } from "matrix-js-sdk/lib/matrix";
+import { IStore } from "matrix-js-sdk/lib/store";
+import { MemoryStore } from "matrix-js-sdk/lib/store/memory";
+
+import AsyncCryptoStore, { CryptoStoreTrace } from "./AsyncCryptoStore";
+import AsyncStore from "./AsyncStore";
+import AsyncSyncStore from "./AsyncSyncStore";
+import { StoreLockOpts } from "./StoreLock";
+
+export const DEFAULT_CRYPTO_DB_NAME = "crypto";
+
+export type StorageBackendOpts =
+    | {
+          type: "async-storage";
+          /**
+           * The store to keep the crypto store in. Defaults to @react-native-community/async-storage.
+           */
+          store?: AsyncStore;
+          /**
+           * The prefix of the crypto store's keys. Defaults to "crypto".
+           */
+          prefix?: string;
+          /**
+           * A store for the account and cross-signing secrets, e.g. one backed by the Keychain or Keystore. Defaults
+           * to keeping them in `store`.
+           */
+          secureStore?: AsyncStore;
+          /**
+           * Called after each crypto store operation and transaction. See {@link AsyncCryptoStoreOpts#onTrace}.
+           */
+          onTrace?: (trace: CryptoStoreTrace) => void;
+          /**
+           * The lock to share the crypto store with other JS contexts through. See {@link AsyncCryptoStoreOpts#lock}.
+           */
+          lock?: StoreLockOpts;
+      }
+    | {
+          type: "indexeddb";
+          /**
+           * The database backend to shim IndexedDB over, e.g. as imported from react-native-sqlite-2.
+           */
+          database: WindowDatabase;
+          /**
+           * The name of the IndexedDB database. Defaults to "crypto".
+           */
+          dbName?: string;
+      }
+    | {
+          // Keeps nothing across restarts, e.g. for tests or guest sessions.
+          type: "memory";
+      };
+
+export interface StorageOpts {
+    backend: StorageBackendOpts;
+
+    /**
+     * The logger to report which store is created to, and the logger of AsyncCryptoStores. Defaults to the
+     * matrix-js-sdk logger.
+     */
+    logger?: Logger;
+}
+
+/**
+ * Loads @react-native-community/async-storage. It is only loaded on first use, so that apps that keep their data
+ * elsewhere never load the native module.
+ */
+export function loadAsyncStorage(): AsyncStore {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require("@react-native-community/async-storage").default;
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export function createIndexedDB(database: WindowDatabase): any {
+    const idb: any = {};
+    setGlobalVars(idb, { checkOrigin: false, win: database });
+    return idb.indexedDB;
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+interface StoreFactories {
+    createCryptoStore: (namespace?: string) => CryptoStore;
+    createSyncStore: (namespace?: string) => IStore;
+}
+
+function makeStoreFactories(opts: StorageOpts): StoreFactories {
+    const logger = opts.logger ?? defaultLogger;
+    const backend = opts.backend;
+    // Sync stores on backends other than AsyncStorage are kept in memory, as matrix-js-sdk does by default.
+    const createMemoryStore = (): IStore => {
+        logger.info("Creating MemoryStore.");
+        return new MemoryStore();
+    };
+    switch (backend.type) {
+        case "async-storage": {
+            const getStore = (): AsyncStore => backend.store ?? loadAsyncStorage();
+            return {
+                createCryptoStore: (namespace): CryptoStore => {
+                    logger.info("Creating AsyncCryptoStore.");
+                    return new AsyncCryptoStore(getStore(), {
+                        namespace,
+                        prefix: backend.prefix,
+                        secureStore: backend.secureStore,
+                        logger,
+                        onTrace: backend.onTrace,
+                        lock: backend.lock,
+                    });
+                },
+                createSyncStore: (namespace): IStore => {
+                    logger.info("Creating AsyncSyncStore.");
+                    return new AsyncSyncStore(getStore(), { namespace, logger });
+                },
+            };
+        }
+        case "indexeddb": {
+            const indexedDB = createIndexedDB(backend.database);
+            const dbName = backend.dbName ?? DEFAULT_CRYPTO_DB_NAME;
+            // IndexedDB stores don't support namespaces: use a database name per account instead.
+            return {
+                createCryptoStore: (): CryptoStore => {
+                    logger.info(`Creating IndexedDBCryptoStore for database ${dbName}.`);
+                    return new IndexedDBCryptoStore(indexedDB, dbName);
+                },
+                createSyncStore: createMemoryStore,
+            };
+        }
+        case "memory":
+            return {
+                createCryptoStore: (): CryptoStore => {
+                    logger.info("Creating MemoryCryptoStore.");
+                    return new MemoryCryptoStore();
+                },
+                createSyncStore: createMemoryStore,
+            };
+    }
+}
+
+let activeHandle: StorageHandle | null = null;
+// Whether storage has been configured, by the app or by default, since the module was loaded.
+let configured = false;
+
+/**
+ * The storage that clients are set up with, as returned by {@link configureStorage}.
+ */
+export default class StorageHandle {
+    private factories: StoreFactories | null;
+
+    /**
+     * Use {@link configureStorage} instead.
+     */
+    public constructor(opts: StorageOpts) {
+        this.factories = makeStoreFactories(opts);
+    }
+
+    private getFactories(): StoreFactories {
+        if (!this.factories) {
+            throw new Error("Storage has been torn down");
+        }
+        return this.factories;
+    }
+
+    /**
+     * Creates a crypto store on the configured backend.
+     *
+     * @param namespace - The namespace of the store, for backends that support them.
+     */
+    public createCryptoStore(namespace?: string): CryptoStore {
+        return this.getFactories().createCryptoStore(namespace);
+    }
+
+    /**
+     * Creates a store for the sync data of a client on the configured backend. Backends other than AsyncStorage
+     * keep it in memory.
+     *
+     * @param namespace - The namespace of the store, for backends that support them.
+     */
+    public createSyncStore(namespace?: string): IStore {
+        return this.getFactories().createSyncStore(namespace);
+    }
+
+    /**
+     * Switches to different storage. Stores that have already been created are not affected.
+     */
+    public reconfigure(opts: StorageOpts): void {
+        if (!this.factories) {
+            throw new Error("Storage has been torn down");
+        }
+        this.factories = makeStoreFactories(opts);
+    }
+
+    /**
+     * Stops using this storage. Clients created afterwards get the matrix-js-sdk default, an in-memory crypto store,
+     * until storage is configured again.
+     */
+    public teardown(): void {
+        this.factories = null;
+        if (activeHandle === this) {
+            activeHandle = null;
+            setCryptoStoreFactory(() => new MemoryCryptoStore());
+        }
+    }
+}
+
+/**
+ * Sets the storage that clients keep their crypto data in, replacing any earlier configuration.
+ *
+ * @param opts - The storage to use.
+ * @returns a handle to reconfigure or tear down the storage.
+ */
+export function configureStorage(opts: StorageOpts): StorageHandle {
+    activeHandle?.teardown();
+    const handle = new StorageHandle(opts);
+    activeHandle = handle;
+    configured = true;
+    setCryptoStoreFactory(() => handle.createCryptoStore());
+    return handle;
+}
+
+/**
+ * @returns the handle of the storage that was last configured, unless it has been torn down. Until storage is
+ * configured, this configures the default: crypto data is kept in AsyncStorage, as earlier versions did.
+ */
+export function getStorage(): StorageHandle | null {
+    if (!configured) {
+        configureStorage({ backend: { type: "async-storage" } });
+    }
+    return activeHandle;
+}
+
+// Clients created with matrix-js-sdk's own createClient get the default storage too, without AsyncStorage being loaded
+// before one is created.
+setCryptoStoreFactory(() => getStorage()?.createCryptoStore() ?? new MemoryCryptoStore());
@@ -0,0 +1,186 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+export interface StorageCategoryStats {
+    // The number of records.
+    count: number;
+    // Roughly how much space the records take, counting each character of their keys and values as a byte.
+    bytes: number;
+}
+
+/**
+ * How many records of each kind a crypto store holds, and roughly how much space they take, as returned by
+ * `AsyncCryptoStore.getStorageStats` and {@link readIndexedDBStorageStats}.
+ */
+export interface CryptoStoreStats {
+    olmSessions: StorageCategoryStats;
+    // The Olm sessions of each device, by the device's curve25519 key.
+    olmSessionsByDevice: Record<string, StorageCategoryStats>;
+    // Its count is the number of devices with session problems.
+    sessionProblems: StorageCategoryStats;
+    inboundGroupSessions: StorageCategoryStats;
+    inboundGroupSessionsWithheld: StorageCategoryStats;
+    outgoingKeyRequests: StorageCategoryStats;
+    // The number of outgoing room key requests in each state.
+    outgoingKeyRequestsByState: Record<number, number>;
+    rooms: StorageCategoryStats;
+    // Its count is the number of inbound group sessions waiting to be backed up.
+    backupQueue: StorageCategoryStats;
+    // Everything else, e.g. the account and the device list.
+    other: StorageCategoryStats;
+    total: StorageCategoryStats;
+}
+
+export function emptyStorageStats(): CryptoStoreStats {
+    const empty = (): StorageCategoryStats => ({ count: 0, bytes: 0 });
+    return {
+        olmSessions: empty(),
+        olmSessionsByDevice: {},
+        sessionProblems: empty(),
+        inboundGroupSessions: empty(),
+        inboundGroupSessionsWithheld: empty(),
+        outgoingKeyRequests: empty(),
+        outgoingKeyRequestsByState: {},
+        rooms: empty(),
+        backupQueue: empty(),
+        other: empty(),
+        total: empty(),
+    };
+}
+
+/**
+ * Adds a record to `stats`, and to the total.
+ */
+export function addRecord(stats: CryptoStoreStats, category: StorageCategoryStats, bytes: number): void {
+    category.count++;
+    category.bytes += bytes;
+    stats.total.count++;
+    stats.total.bytes += bytes;
+}
+
+/**
+ * Adds the space taken by something that isn't a record of its own, e.g. an index entry, to `stats`.
+ */
+export function addBytes(stats: CryptoStoreStats, category: StorageCategoryStats, bytes: number): void {
+    category.bytes += bytes;
+    stats.total.bytes += bytes;
+}
+
+/**
+ * Gathers the statistics of an IndexedDBCryptoStore. IndexedDB can't report the size of its records, so this reads
+ * every record.
+ *
+ * @param indexedDB - The IndexedDB factory the store was created with.
+ * @param dbName - The name of the store's database.
+ */
+export async function readIndexedDBStorageStats(indexedDB: IDBFactory, dbName: string): Promise<CryptoStoreStats> {
+    const stats = emptyStorageStats();
+    const devicesWithProblems = new Set<string>();
+    const db = await openExisting(indexedDB, dbName);
+    if (!db) {
+        return stats;
+    }
+    try {
+        for (const storeName of Array.from(db.objectStoreNames)) {
+            await forEachRecord(db, storeName, (key, value) => {
+                const bytes = JSON.stringify(key).length + (JSON.stringify(value)?.length ?? 0);
+                switch (storeName) {
+                    case "sessions": {
+                        addRecord(stats, stats.olmSessions, bytes);
+                        const deviceKey = (value as { deviceKey: string }).deviceKey;
+                        const device = (stats.olmSessionsByDevice[deviceKey] ??= { count: 0, bytes: 0 });
+                        device.count++;
+                        device.bytes += bytes;
+                        break;
+                    }
+                    case "session_problems": {
+                        // IndexedDB keeps a record per problem, AsyncCryptoStore one per device.
+                        const deviceKey = (value as { deviceKey: string }).deviceKey;
+                        if (devicesWithProblems.has(deviceKey)) {
+                            addBytes(stats, stats.sessionProblems, bytes);
+                        } else {
+                            devicesWithProblems.add(deviceKey);
+                            addRecord(stats, stats.sessionProblems, bytes);
+                        }
+                        break;
+                    }
+                    case "inbound_group_sessions":
+                        addRecord(stats, stats.inboundGroupSessions, bytes);
+                        break;
+                    case "inbound_group_sessions_withheld":
+                        addRecord(stats, stats.inboundGroupSessionsWithheld, bytes);
+                        break;
+                    case "outgoingRoomKeyRequests": {
+                        addRecord(stats, stats.outgoingKeyRequests, bytes);
+                        const state = (value as { state: number }).state;
+                        stats.outgoingKeyRequestsByState[state] = (stats.outgoingKeyRequestsByState[state] ?? 0) + 1;
+                        break;
+                    }
+                    case "rooms":
+                        addRecord(stats, stats.rooms, bytes);
+                        break;
+                    case "sessions_needing_backup":
+                        addRecord(stats, stats.backupQueue, bytes);
+                        break;
+                    default:
+                        addRecord(stats, stats.other, bytes);
+                }
+            });
+        }
+    } finally {
+        db.close();
+    }
+    return stats;
+}
+
+/**
+ * Opens a database without creating it.
+ *
+ * @returns the database, or null if there is none called `dbName`.
+ */
+function openExisting(indexedDB: IDBFactory, dbName: string): Promise<IDBDatabase | null> {
+    return new Promise((resolve, reject) => {
+        let created = false;
+        const req = indexedDB.open(dbName);
+        req.onupgradeneeded = (): void => {
+            // The database doesn't exist yet: abort its creation.
+            created = true;
+            req.transaction!.abort();
+        };
+        req.onsuccess = (): void => resolve(req.result);
+        req.onerror = (): void => (created ? resolve(null) : reject(req.error));
+    });
+}
+
+function forEachRecord(
+    db: IDBDatabase,
+    storeName: string,
+    func: (key: IDBValidKey, value: unknown) => void,
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const req = db.transaction(storeName, "readonly").objectStore(storeName).openCursor();
+        req.onsuccess = (): void => {
+            const cursor = req.result;
+            if (!cursor) {
+                resolve();
+                return;
+            }
+            func(cursor.primaryKey, cursor.value);
+            cursor.continue();
+        };
+        req.onerror = (): void => reject(req.error);
+    });
+}
@@ -0,0 +1,259 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Logger, logger as defaultLogger } from "matrix-js-sdk/lib/logger";
+
+import AsyncStore from "./AsyncStore";
+
+export interface StoreLockOpts {
+    /**
+     * Identifies this JS context to the others, e.g. "app" or "notifications". Defaults to a random ID.
+     */
+    holder?: string;
+
+    /**
+     * How long a lease lasts, in milliseconds. Leases are renewed while the lock is held, so this is how long a
+     * context that was killed keeps the lock for. Defaults to 10 seconds.
+     */
+    leaseDuration?: number;
+
+    /**
+     * How long to wait for the lock, in milliseconds. Defaults to 30 seconds.
+     */
+    timeout?: number;
+
+    /**
+     * When to take the lock from another context: only once its lease has expired ("expired"), or also once the
+     * timeout has passed ("after-timeout"). With "expired", waiting longer than the timeout fails. Defaults to
+     * "expired".
+     */
+    steal?: "expired" | "after-timeout";
+
+    /**
+     * How often to check whether the lock has been released, in milliseconds. Defaults to 100.
+     */
+    pollInterval?: number;
+
+    /**
+     * How long to wait after writing a lease before checking that no other context overwrote it, in milliseconds.
+     * Defaults to 20.
+     */
+    settleDelay?: number;
+}
+
+/**
+ * Who holds a lock, as returned by {@link StoreLock#getHolder}.
+ */
+export interface LockHolder {
+    holder: string;
+    // When the lease runs out unless it is renewed, in milliseconds since the epoch.
+    expires: number;
+}
+
+interface LeaseRecord {
+    holder: string;
+    // Tells this context's writes of the lease from another context's with the same holder ID.
+    token: string | null;
+    expires: number;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function randomId(): string {
+    return Math.random().toString(36).slice(2, 10);
+}
+
+/**
+ * A lock shared by the JS contexts that use one AsyncStore, e.g. the app and a headless task that decrypts push
+ * notifications. It is kept as a lease under one key: a holder that is killed loses the lock once its lease expires.
+ *
+ * The store has no compare-and-swap, so a context writes its lease and then reads it back after a short delay, and
+ * only holds the lock if no other context overwrote it in the meantime.
+ */
+export default class StoreLock {
+    public readonly holder: string;
+    private readonly leaseDuration: number;
+    private readonly timeout: number;
+    private readonly steal: "expired" | "after-timeout";
+    private readonly pollInterval: number;
+    private readonly settleDelay: number;
+
+    // The number of callers holding the lock in this context.
+    private holds = 0;
+    private token: string | null = null;
+    private acquiring: Promise<void> | null = null;
+    private renewTimer: ReturnType<typeof setInterval> | null = null;
+
+    /**
+     * @param storage - The store the lock is kept in.
+     * @param key - The key of the lock.
+     * @param opts - Further options.
+     * @param logger - The logger to report stolen and lost leases to.
+     * @param onTakeOver - Called with the previous holder when the lock is taken after another context held it, before
+     *     `acquire` resolves.
+     */
+    public constructor(
+        private readonly storage: AsyncStore,
+        private readonly key: string,
+        opts: StoreLockOpts = {},
+        private readonly logger: Logger = defaultLogger,
+        private readonly onTakeOver?: (previousHolder: string) => Promise<void>,
+    ) {
+        this.holder = opts.holder ?? randomId();
+        this.leaseDuration = opts.leaseDuration ?? 10000;
+        this.timeout = opts.timeout ?? 30000;
+        this.steal = opts.steal ?? "expired";
+        this.pollInterval = opts.pollInterval ?? 100;
+        this.settleDelay = opts.settleDelay ?? 20;
+    }
+
+    /**
+     * @returns who holds the lock, or null if nobody does.
+     */
+    public async getHolder(): Promise<LockHolder | null> {
+        const record = await this.read();
+        if (!record || record.token === null || record.expires <= Date.now()) {
+            return null;
+        }
+        return { holder: record.holder, expires: record.expires };
+    }
+
+    /**
+     * Takes the lock, waiting for another context to release it if need be. The lock is held until every call of
+     * `acquire` in this context has been matched by a call of {@link StoreLock#release}.
+     *
+     * @throws if the lock is still held by another context after the timeout.
+     */
+    public async acquire(): Promise<void> {
+        if (this.holds > 0 && !this.acquiring) {
+            this.holds++;
+            return;
+        }
+        this.holds++;
+        if (!this.acquiring) {
+            this.acquiring = this.takeLease();
+            this.acquiring.then(
+                () => (this.acquiring = null),
+                () => (this.acquiring = null),
+            );
+        }
+        try {
+            await this.acquiring;
+        } catch (e) {
+            this.holds--;
+            throw e;
+        }
+    }
+
+    /**
+     * Releases one hold of the lock. The lease is given up once every hold has been released.
+     */
+    public async release(): Promise<void> {
+        if (this.holds === 0) {
+            return;
+        }
+        this.holds--;
+        if (this.holds === 0) {
+            await this.giveUp();
+        }
+    }
+
+    private async giveUp(): Promise<void> {
+        this.stopRenewing();
+        const token = this.token;
+        this.token = null;
+        const record = await this.read();
+        if (record?.token === token) {
+            await this.write({ holder: this.holder, token: null, expires: 0 });
+        }
+    }
+
+    private async takeLease(): Promise<void> {
+        const deadline = Date.now() + this.timeout;
+        for (;;) {
+            const record = await this.read();
+            const now = Date.now();
+            const free = !record || record.token === null || record.expires <= now;
+            if (free || (this.steal === "after-timeout" && now >= deadline)) {
+                if (!free) {
+                    this.logger.warn(`Stealing the lock ${this.key} from ${record!.holder}`);
+                }
+                const token = randomId();
+                await this.write({ holder: this.holder, token, expires: now + this.leaseDuration });
+                await delay(this.settleDelay);
+                if ((await this.read())?.token === token) {
+                    this.token = token;
+                    this.startRenewing();
+                    if (record && record.holder !== this.holder && this.onTakeOver) {
+                        try {
+                            await this.onTakeOver(record.holder);
+                        } catch (e) {
+                            await this.giveUp();
+                            throw e;
+                        }
+                    }
+                    return;
+                }
+            } else if (now >= deadline) {
+                throw new Error(
+                    `Timed out waiting for the lock ${this.key}, held by ${record!.holder} until ` +
+                        new Date(record!.expires).toISOString(),
+                );
+            } else {
+                await delay(Math.min(this.pollInterval, deadline - now));
+            }
+        }
+    }
+
+    private startRenewing(): void {
+        this.renewTimer = setInterval(() => {
+            this.renew().catch((e) => this.logger.warn(`Failed to renew the lock ${this.key}`, e));
+        }, this.leaseDuration / 3);
+    }
+
+    private async renew(): Promise<void> {
+        const token = this.token;
+        const record = await this.read();
+        if (token === null || this.token !== token) {
+            // Released in the meantime.
+            return;
+        }
+        if (record?.token !== token) {
+            this.logger.error(`Lost the lock ${this.key} to ${record?.holder ?? "nobody"}`);
+            this.stopRenewing();
+            return;
+        }
+        await this.write({ holder: this.holder, token, expires: Date.now() + this.leaseDuration });
+    }
+
+    private stopRenewing(): void {
+        if (this.renewTimer !== null) {
+            clearInterval(this.renewTimer);
+            this.renewTimer = null;
+        }
+    }
+
+    private async read(): Promise<LeaseRecord | null> {
+        const value = await this.storage.getItem(this.key);
+        return value === null ? null : (JSON.parse(value) as LeaseRecord);
+    }
+
+    private async write(record: LeaseRecord): Promise<void> {
+        await this.storage.setItem(this.key, JSON.stringify(record));
+    }
+}
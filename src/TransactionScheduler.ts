@@ -0,0 +1,94 @@
+/*
+Copyright 2024 The Matrix.org Foundation C.I.C.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+
+import { Mode } from "matrix-js-sdk/lib/crypto/store/base";
+
+interface Lock {
+    mode: Mode;
+    // The named stores the transaction covers. An empty scope covers every store.
+    scope: ReadonlySet<string>;
+    granted: boolean;
+    grant: () => void;
+}
+
+function overlaps(a: ReadonlySet<string>, b: ReadonlySet<string>): boolean {
+    if (a.size === 0 || b.size === 0) {
+        return true;
+    }
+    for (const store of a) {
+        if (b.has(store)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function conflicts(a: Lock, b: Lock): boolean {
+    return (a.mode === "readwrite" || b.mode === "readwrite") && overlaps(a.scope, b.scope);
+}
+
+/**
+ * Decides when transactions may start, following the same rules as IndexedDB: a transaction waits for every
+ * earlier, unfinished transaction whose scope overlaps its own, unless both of them are read-only. Overlapping
+ * read-only transactions therefore run in parallel, while read-write transactions on the same store run one after
+ * the other, in the order they were requested.
+ */
+export default class TransactionScheduler {
+    // Granted and waiting locks, in the order they were requested.
+    private locks: Lock[] = [];
+
+    /**
+     * Waits until a transaction with the given mode and scope may start.
+     *
+     * @param mode - The mode of the transaction.
+     * @param stores - The named stores the transaction will use. If empty, the transaction covers every store.
+     * @returns a function that must be called once the transaction has finished, to let waiting transactions start.
+     */
+    public acquire(mode: Mode, stores: Iterable<string>): Promise<() => void> {
+        return new Promise((resolve) => {
+            const lock: Lock = {
+                mode,
+                scope: new Set(stores),
+                granted: false,
+                grant: () => resolve(() => this.release(lock)),
+            };
+            this.locks.push(lock);
+            this.grantLocks();
+        });
+    }
+
+    private release(lock: Lock): void {
+        const index = this.locks.indexOf(lock);
+        if (index === -1) {
+            return;
+        }
+        this.locks.splice(index, 1);
+        this.grantLocks();
+    }
+
+    private grantLocks(): void {
+        this.locks.forEach((lock, index) => {
+            if (lock.granted) {
+                return;
+            }
+            if (this.locks.slice(0, index).some((earlier) => conflicts(earlier, lock))) {
+                return;
+            }
+            lock.granted = true;
+            lock.grant();
+        });
+    }
+}
@@ -15,30 +15,201 @@ limitations under the License.
 */
 
 import * as matrixcs from "matrix-js-sdk/lib/matrix";
-import AsyncStorage from "@react-native-community/async-storage";
-import setGlobalVars from "indexeddbshim/dist/indexeddbshim-noninvasive";
 
 import AsyncCryptoStore from "./AsyncCryptoStore";
-
-matrixcs.setCryptoStoreFactory(() => {
-    console.warn("IndexedDB not available. Falling back to built-in crypto store.");
-    return new AsyncCryptoStore(AsyncStorage);
-});
+import AsyncStore from "./AsyncStore";
+import { CryptoStoreMigrationOpts, migrateCryptoStore } from "./CryptoStoreMigration";
+import {
+    configureStorage,
+    createIndexedDB,
+    DEFAULT_CRYPTO_DB_NAME,
+    getStorage,
+    loadAsyncStorage,
+} from "./StorageHandle";
+import { CryptoStoreStats, readIndexedDBStorageStats } from "./StorageStats";
 
 /**
- * Shim IndexedDB and make IndexedDBCryptoStore the default crypto store
+ * Shim IndexedDB and make IndexedDBCryptoStore the default crypto store. Shorthand for `configureStorage`.
  * @param {WindowDatabase} backend - The database backend to use, e.g. as imported from react-native-sqlite-2
  */
 export function shimIndexedDB(backend: WindowDatabase): void {
-    /* eslint-disable @typescript-eslint/no-explicit-any */
-    const idb: any = {};
-    setGlobalVars(idb, { checkOrigin: false, win: backend });
+    configureStorage({ backend: { type: "indexeddb", database: backend } });
+}
+
+// The namespace that `createClient` keeps the crypto store of a device in.
+function namespaceFor(userId?: string | null, deviceId?: string | null): string | undefined {
+    return userId && deviceId ? AsyncCryptoStore.namespaceForDevice(userId, deviceId) : undefined;
+}
+
+/**
+ * Construct a Matrix Client, like `createClient` from matrix-js-sdk. Unless `opts` has its own stores, the client keeps
+ * its sync data and crypto data in the configured storage, or AsyncStorage if none has been configured. If `opts` has
+ * a user and device ID, both stores are namespaced to that device, so that several accounts can share one app.
+ * @param {ICreateClientOpts} opts - The options for the client
+ * @returns {MatrixClient} the client
+ */
+export function createClient(opts: matrixcs.ICreateClientOpts): matrixcs.MatrixClient {
+    const storage = getStorage();
+    if (storage) {
+        const namespace = namespaceFor(opts.userId, opts.deviceId);
+        if (!opts.store) {
+            opts = { ...opts, store: storage.createSyncStore(namespace) };
+        }
+        if (!opts.cryptoStore && namespace !== undefined) {
+            opts = { ...opts, cryptoStore: storage.createCryptoStore(namespace) };
+        }
+    }
+    return matrixcs.createClient(opts);
+}
+
+export interface IndexedDBMigrationOpts extends CryptoStoreMigrationOpts {
+    /**
+     * The user and device whose crypto store to migrate, as passed to `createClient`. Without them, the store of
+     * clients created without a user and device ID is migrated.
+     */
+    userId?: string;
+    deviceId?: string;
+
+    /**
+     * The store that the AsyncStorage crypto store is kept in, as passed to `configureStorage`. Defaults to
+     * @react-native-community/async-storage.
+     */
+    store?: AsyncStore;
+
+    /**
+     * The prefix of the AsyncStorage crypto store's keys, as passed to `configureStorage`. Defaults to "crypto".
+     */
+    prefix?: string;
+
+    /**
+     * The store that the AsyncStorage crypto store keeps its account and cross-signing secrets in, as passed to
+     * `configureStorage`. Defaults to keeping them in `store`.
+     */
+    secureStore?: AsyncStore;
+
+    /**
+     * The name of the IndexedDB database. Defaults to "crypto".
+     */
+    dbName?: string;
+}
 
-    matrixcs.setCryptoStoreFactory(() => {
-        console.log("Found IndexedDB. Creating IndexedDBCryptoStore.");
-        return new matrixcs.IndexedDBCryptoStore(idb.indexedDB, "crypto");
+function createAsyncCryptoStore(opts: IndexedDBMigrationOpts): AsyncCryptoStore {
+    return new AsyncCryptoStore(opts.store ?? loadAsyncStorage(), {
+        namespace: namespaceFor(opts.userId, opts.deviceId),
+        prefix: opts.prefix,
+        secureStore: opts.secureStore,
     });
 }
 
+/**
+ * Moves the crypto data written by the AsyncStorage fallback store into the shimmed IndexedDB crypto store. Call this
+ * before creating a client, after `shimIndexedDB`, so that switching to IndexedDB doesn't lose the existing sessions.
+ * The AsyncStorage keys are only deleted once the copy has been verified.
+ * @param {WindowDatabase} backend - The database backend passed to `shimIndexedDB`
+ * @param {IndexedDBMigrationOpts} opts - The store to migrate, and further options, e.g. a progress callback
+ * @returns {Promise<boolean>} whether there was any data to migrate
+ */
+export async function migrateCryptoStoreToIndexedDB(
+    backend: WindowDatabase,
+    opts: IndexedDBMigrationOpts = {},
+): Promise<boolean> {
+    const source = createAsyncCryptoStore(opts);
+    if (!(await source.containsData())) {
+        return false;
+    }
+    await source.startup();
+    const target = new matrixcs.IndexedDBCryptoStore(createIndexedDB(backend), opts.dbName ?? DEFAULT_CRYPTO_DB_NAME);
+    await target.startup();
+    await migrateCryptoStore(source, target, opts);
+    return true;
+}
+
+/**
+ * Moves the crypto data from the shimmed IndexedDB crypto store back into AsyncStorage, e.g. to roll back a release
+ * that started calling `shimIndexedDB`. The IndexedDB data is only deleted once the copy has been verified.
+ * @param {WindowDatabase} backend - The database backend that was passed to `shimIndexedDB`
+ * @param {IndexedDBMigrationOpts} opts - The store to migrate to, and further options, e.g. a progress callback
+ * @returns {Promise<boolean>} whether there was any data to migrate
+ */
+export async function migrateCryptoStoreFromIndexedDB(
+    backend: WindowDatabase,
+    opts: IndexedDBMigrationOpts = {},
+): Promise<boolean> {
+    const indexedDB = createIndexedDB(backend);
+    const dbName = opts.dbName ?? DEFAULT_CRYPTO_DB_NAME;
+    if (!(await matrixcs.IndexedDBCryptoStore.exists(indexedDB, dbName))) {
+        return false;
+    }
+    const source = new matrixcs.IndexedDBCryptoStore(indexedDB, dbName);
+    await source.startup();
+    const target = createAsyncCryptoStore(opts);
+    await target.startup();
+    await migrateCryptoStore(source, target, opts);
+    return true;
+}
+
+/**
+ * Counts the records of each kind in the shimmed IndexedDB crypto store, and roughly how much space they take, like
+ * `AsyncCryptoStore.getStorageStats`. IndexedDB can't report the size of its records, so this reads them all.
+ * @param {WindowDatabase} backend - The database backend passed to `shimIndexedDB`
+ * @param {string} dbName - The name of the database. Defaults to "crypto".
+ * @returns {Promise<CryptoStoreStats>} the statistics, which are all zero if there is no such database
+ */
+export function getIndexedDBStorageStats(
+    backend: WindowDatabase,
+    dbName = DEFAULT_CRYPTO_DB_NAME,
+): Promise<CryptoStoreStats> {
+    return readIndexedDBStorageStats(createIndexedDB(backend), dbName);
+}
+
+export { default as AsyncCryptoStore } from "./AsyncCryptoStore";
+export type {
+    AsyncCryptoStoreOpts,
+    CryptoStoreTrace,
+    MigrationPosition,
+    PruneReport,
+    PruneRules,
+    SessionPage,
+} from "./AsyncCryptoStore";
+export type { default as AsyncStore } from "./AsyncStore";
+export { default as AsyncSyncStore } from "./AsyncSyncStore";
+export type { AsyncSyncStoreOpts } from "./AsyncSyncStore";
+export { default as AsyncStorageStore } from "./AsyncStorageStore";
+export type { AsyncStorageLike } from "./AsyncStorageStore";
+export type { ArchiveOpts } from "./CryptoStoreArchive";
+export { migrateCryptoStore } from "./CryptoStoreMigration";
+export type {
+    CryptoStoreMigrationOpts,
+    CryptoStoreMigrationPhase,
+    CryptoStoreMigrationProgress,
+} from "./CryptoStoreMigration";
+export { default as EncryptedAsyncStore } from "./EncryptedAsyncStore";
+export type { EncryptedAsyncStoreOpts } from "./EncryptedAsyncStore";
+export { migrateLegacyCryptoStore } from "./LegacyCryptoMigration";
+export type {
+    LegacyCryptoMigrationHandlers,
+    LegacyCryptoMigrationOpts,
+    LegacyCryptoMigrationPhase,
+    LegacyCryptoMigrationProgress,
+    UnmigratableRecord,
+} from "./LegacyCryptoMigration";
+export type { LruCacheStats } from "./LruCache";
+export { decryptMegolmEvent } from "./MegolmDecryption";
+export type {
+    DecryptedMegolmEvent,
+    DecryptMegolmEventOpts,
+    EncryptedEventLike,
+    OlmInboundGroupSessionLike,
+    OlmLike,
+} from "./MegolmDecryption";
+export { default as MmkvAsyncStore } from "./MmkvAsyncStore";
+export type { MMKVLike } from "./MmkvAsyncStore";
+export { default as SQLiteAsyncStore } from "./SQLiteAsyncStore";
+export type { SQLiteDatabaseLike } from "./SQLiteAsyncStore";
+export { configureStorage, default as StorageHandle } from "./StorageHandle";
+export type { StorageBackendOpts, StorageOpts } from "./StorageHandle";
+export type { CryptoStoreStats, StorageCategoryStats } from "./StorageStats";
+export type { LockHolder, StoreLockOpts } from "./StoreLock";
+
 export * from "matrix-js-sdk/lib/matrix";
 export default matrixcs;